@@ -0,0 +1,254 @@
+/**
+ * Reclass doc generator
+ *
+ * @author Jiri Hybek <jiri@hybek.cz>
+ * @license Apache-2.0 (c) 2017 Jiri Hybek
+ */
+
+/*
+ * Loads fixture inventories and compares resolved nodes and classes with
+ * expected.json of each fixture. Run with --update to rewrite expected output.
+ *
+ * Classes are compared with deferred merges applied as declared. Options
+ * ignore_class_notfound and ignore_class_notfound_regexp are read from
+ * reclass-config.yml of fixture.
+ *
+ * Each fixture is loaded again with nodes resolved in two worker threads
+ * and compared with the same expected output.
+ *
+ * Requires compiled sources in dist directory.
+ */
+const fs = require("fs");
+const path = require("path");
+const assert = require("assert");
+
+const Logger = require("meta2-logger").Logger;
+const Inventory = require("../dist/Inventory").Inventory;
+const TOKEN_TYPE = require("../dist/YamlTokenizer").TOKEN_TYPE;
+const loadReclassConfig = require("../dist/Util").loadReclassConfig;
+
+const fixturesDir = path.join(__dirname, "fixtures");
+const update = process.argv.indexOf("--update") >= 0;
+
+//Converts resolved param to plain value
+let toValue = (param) => {
+
+	if(param.type === TOKEN_TYPE.MAP){
+
+		let value = {};
+
+		for(let i in param.value)
+			value[i] = toValue(param.value[i]);
+
+		return value;
+
+	} else if(param.type === TOKEN_TYPE.SEQUENCE){
+
+		return param.value.map(toValue);
+
+	} else {
+
+		return param.value;
+
+	}
+
+};
+
+//Returns names of classes in directory
+let listClasses = (dir, prefix) => {
+
+	let names = [];
+
+	fs.readdirSync(dir).sort().forEach((filename) => {
+
+		if(fs.statSync(path.join(dir, filename)).isDirectory())
+			names = names.concat(listClasses(path.join(dir, filename), prefix + filename + "."));
+		else if(filename === "init.yml")
+			names.push(prefix.replace(/\.$/, ""));
+		else
+			names.push(prefix + filename.replace(/\.ya?ml$/, ""));
+
+	});
+
+	return names;
+
+};
+
+//Returns error message with fixture directory replaced by placeholder
+let toMessage = (err, reclassDir) => {
+
+	return String(err.message).split(reclassDir).join("<reclassDir>");
+
+};
+
+//Returns errors of class dependencies
+let dependencyErrors = (classes, reclassDir) => {
+
+	let errors = [];
+
+	for(let i = 0; i < classes.length; i++){
+
+		if(classes[i].error)
+			errors.push(classes[i].name + ": " + toMessage(classes[i].error, reclassDir));
+
+		errors = errors.concat(dependencyErrors(classes[i].classes, reclassDir));
+
+	}
+
+	return errors;
+
+};
+
+//Creates inventory of fixture
+let createInventory = (reclassDir, concurrency) => {
+
+	let reclassConfig = loadReclassConfig(path.join(reclassDir, "reclass-config.yml")) || {};
+
+	let inventory = new Inventory({
+		reclassDir: reclassDir,
+		ignoreClassNotFound: reclassConfig["ignore_class_notfound"] === true,
+		ignoreClassNotFoundRegexp: [].concat(reclassConfig["ignore_class_notfound_regexp"] || []),
+		concurrency: concurrency
+	}, new Logger().facility("Inventory"));
+
+	//Fixtures are small, use workers for any number of nodes
+	inventory.workerMinNodes = 1;
+
+	return inventory;
+
+};
+
+//Converts inventory class to output compared with expected one
+let toResult = (inventory, reclassDir, iClass, declared) => {
+
+	if(!iClass)
+		return { error: "Not loaded" };
+
+	if(iClass.error)
+		return { error: toMessage(iClass.error, reclassDir) };
+
+	let rClass = iClass.class;
+	let params = ( declared ? inventory.getDeclaredParam(rClass.params) : rClass.params );
+	let exports = ( declared ? inventory.getDeclaredParam(rClass.exports) : rClass.exports );
+
+	let result = {
+		classes: rClass.linearization,
+		applications: Object.keys(rClass.applications).filter((app) => !rClass.applications[app].removed),
+		parameters: toValue(params),
+		exports: toValue(exports)
+	};
+
+	//Diagnostics are compared only when present
+	if(rClass.refErrors.length > 0)
+		result.refErrors = rClass.refErrors.map((err) => toMessage(err, reclassDir));
+
+	let removedApplications = Object.keys(rClass.applications).filter((app) => rClass.applications[app].removed);
+
+	if(removedApplications.length > 0)
+		result.removedApplications = removedApplications;
+
+	if(rClass.constantViolations.length > 0)
+		result.constantViolations = rClass.constantViolations.map((violation) => violation.message);
+
+	if(rClass.optionalClasses.length > 0)
+		result.optionalClasses = rClass.optionalClasses;
+
+	let classErrors = dependencyErrors(rClass.classes, reclassDir);
+
+	if(classErrors.length > 0)
+		result.classErrors = classErrors;
+
+	return result;
+
+};
+
+//Compares results with expected ones
+let compare = (fixture, result, expected) => {
+
+	for(let name in expected){
+
+		try {
+
+			assert.deepStrictEqual(result[name], expected[name]);
+			console.log("ok", fixture + "/" + name);
+
+		} catch(err) {
+
+			failed++;
+			console.log("FAILED", fixture + "/" + name);
+			console.log(err.message);
+
+		}
+
+	}
+
+	for(let name in result)
+		if(!expected[name]){
+
+			failed++;
+			console.log("FAILED", fixture + "/" + name, "- missing expected output");
+
+		}
+
+};
+
+let failed = 0;
+
+//Loads fixture and compares results
+let testFixture = (fixture, concurrency) => {
+
+	let reclassDir = path.join(fixturesDir, fixture);
+	let expectedFile = path.join(reclassDir, "expected.json");
+	let inventory = createInventory(reclassDir, concurrency);
+	let label = fixture + ( concurrency > 1 ? "[" + concurrency + " workers]" : "" );
+
+	return inventory.load().then(() => {
+
+		let result = { nodes: {}, classes: {} };
+
+		fs.readdirSync(path.join(reclassDir, "nodes")).sort().forEach((filename) => {
+
+			let name = filename.replace(/\.ya?ml$/, "");
+
+			result.nodes[name] = toResult(inventory, reclassDir, inventory.getNodeRef(name), false);
+
+		});
+
+		listClasses(path.join(reclassDir, "classes"), "").forEach((name) => {
+
+			result.classes[name] = toResult(inventory, reclassDir, inventory.getClassRef(name), true);
+
+		});
+
+		if(update){
+
+			fs.writeFileSync(expectedFile, JSON.stringify(result, null, "\t") + "\n", { encoding: "utf-8" });
+			console.log("Updated", fixture);
+			return;
+
+		}
+
+		let expected = JSON.parse(fs.readFileSync(expectedFile, { encoding: "utf-8" }));
+
+		compare(label + "/nodes", result.nodes, expected.nodes);
+		compare(label + "/classes", result.classes, expected.classes);
+
+	});
+
+};
+
+fs.readdirSync(fixturesDir).sort().reduce((prev, fixture) => prev.then(() => testFixture(fixture, 1)).then(() => update ? null : testFixture(fixture, 2)), Promise.resolve()).then(() => {
+
+	if(failed > 0){
+
+		console.log(failed + " node(s) or class(es) failed.");
+		process.exit(1);
+
+	}
+
+}, (err) => {
+
+	console.log(err.stack);
+	process.exit(1);
+
+});
\ No newline at end of file
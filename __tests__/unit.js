@@ -0,0 +1,63 @@
+/**
+ * Reclass doc generator
+ *
+ * @author Jiri Hybek <jiri@hybek.cz>
+ * @license Apache-2.0 (c) 2017 Jiri Hybek
+ */
+
+/*
+ * Runs unit tests in unit directory. Every test file exports map of test
+ * names to functions, functions may return promise.
+ *
+ * Requires compiled sources in dist directory.
+ */
+const fs = require("fs");
+const path = require("path");
+
+const unitDir = path.join(__dirname, "unit");
+
+let tests = [];
+let failed = 0;
+
+fs.readdirSync(unitDir).sort().forEach((filename) => {
+
+	if(!/\.js$/.test(filename))
+		return;
+
+	let suite = require(path.join(unitDir, filename));
+
+	for(let name in suite)
+		tests.push({ name: filename.replace(/\.js$/, "") + ": " + name, fn: suite[name] });
+
+});
+
+let run = (i) => {
+
+	if(i >= tests.length){
+
+		if(failed > 0){
+
+			console.log(failed + " test(s) failed.");
+			process.exit(1);
+
+		}
+
+		return;
+
+	}
+
+	Promise.resolve().then(() => tests[i].fn()).then(() => {
+
+		console.log("ok", tests[i].name);
+
+	}, (err) => {
+
+		failed++;
+		console.log("FAILED", tests[i].name);
+		console.log(err && err.stack ? err.stack : err);
+
+	}).then(() => run(i + 1));
+
+};
+
+run(0);
\ No newline at end of file
@@ -0,0 +1,74 @@
+/**
+ * Reclass doc generator
+ *
+ * @author Jiri Hybek <jiri@hybek.cz>
+ * @license Apache-2.0 (c) 2017 Jiri Hybek
+ */
+
+const assert = require("assert");
+
+const AnnotationParser = require("../../dist/AnnotationParser").AnnotationParser;
+
+let parser = new AnnotationParser();
+
+module.exports = {
+
+	"parses description without annotations": () => {
+
+		assert.deepStrictEqual(parser.parse([ "Listen port", "" ]), { description: [ "Listen port", "" ], annotations: null });
+
+	},
+
+	"parses known tags": () => {
+
+		let comment = parser.parse([ "Listen port", "@type int", "@required", "@default 3306", "@see mysql:host, service.mysql" ]);
+
+		assert.deepStrictEqual(comment.description, [ "Listen port" ]);
+		assert.deepStrictEqual(comment.annotations, {
+			type: "int",
+			required: true,
+			default: "3306",
+			examples: [],
+			see: [ "mysql:host", "service.mysql" ],
+			unknown: []
+		});
+
+	},
+
+	"appends continuation lines to default and example": () => {
+
+		let comment = parser.parse([ "@example", "- db1", "- db2", "@example single", "@default a", "b", "@type list" ]);
+
+		assert.deepStrictEqual(comment.annotations.examples, [ "- db1\n- db2", "single" ]);
+		assert.strictEqual(comment.annotations.default, "a\nb");
+		assert.strictEqual(comment.annotations.type, "list");
+
+	},
+
+	"parses required flag value and collects unknown tags": () => {
+
+		assert.strictEqual(parser.parse([ "@required false" ]).annotations.required, false);
+		assert.strictEqual(parser.parse([ "@required TRUE" ]).annotations.required, true);
+		assert.deepStrictEqual(parser.parse([ "@deprecated", "@Todo fix" ]).annotations.unknown, [ "deprecated", "Todo" ]);
+
+	},
+
+	"merges annotations with source taking precedence": () => {
+
+		let target = parser.parse([ "@type int", "@default 1", "@see a" ]).annotations;
+		let source = parser.parse([ "@default 2", "@see a b" ]).annotations;
+
+		assert.deepStrictEqual(parser.merge(target, source), {
+			type: "int",
+			required: false,
+			default: "2",
+			examples: [],
+			see: [ "a", "b" ],
+			unknown: []
+		});
+		assert.strictEqual(parser.merge(null, source), source);
+		assert.strictEqual(parser.merge(target, null), target);
+
+	}
+
+};
@@ -0,0 +1,321 @@
+/**
+ * Reclass doc generator
+ *
+ * @author Jiri Hybek <jiri@hybek.cz>
+ * @license Apache-2.0 (c) 2017 Jiri Hybek
+ */
+
+const fs = require("fs-extra");
+const os = require("os");
+const path = require("path");
+const v8 = require("v8");
+const assert = require("assert");
+
+const Logger = require("meta2-logger").Logger;
+const Inventory = require("../../dist/Inventory").Inventory;
+
+const fixturesDir = path.join(__dirname, "..", "fixtures");
+
+//Creates and loads inventory of fixture
+let loadInventory = (fixture, config) => {
+
+	let inventory = new Inventory(Object.assign({ reclassDir: path.join(fixturesDir, fixture) }, config || {}), new Logger().facility("Inventory"));
+
+	return inventory.load().then(() => inventory);
+
+};
+
+//Creates temporary reclass directory with given files
+let createReclassDir = (files) => {
+
+	let reclassDir = fs.mkdtempSync(path.join(os.tmpdir(), "reclass-doc-test-"));
+
+	for(let filename in files)
+		writeFile(reclassDir, filename, files[filename]);
+
+	return reclassDir;
+
+};
+
+//Writes file of reclass directory, modification time is moved forward to be detected
+let writeFile = (reclassDir, filename, contents) => {
+
+	let _path = path.join(reclassDir, filename);
+	let mtime = new Date(Date.now() + 2000);
+
+	fs.outputFileSync(_path, contents, { encoding: "utf-8" });
+	fs.utimesSync(_path, mtime, mtime);
+
+	return _path;
+
+};
+
+//Removes temporary reclass directory
+let removeReclassDir = (reclassDir) => {
+
+	fs.removeSync(reclassDir);
+
+};
+
+//Creates inventory of temporary reclass directory
+let createInventory = (reclassDir, config) => {
+
+	return new Inventory(Object.assign({ reclassDir: reclassDir }, config || {}), new Logger().facility("Inventory"));
+
+};
+
+//Returns value of node parameter, failed and optional classes of node
+let nodeState = (inventory, nodeName, param) => {
+
+	let rClass = inventory.getNodeRef(nodeName).class;
+
+	return {
+		value: rClass.params.value[param] ? rClass.params.value[param].value : null,
+		errors: rClass.classes.filter((dep) => dep.error).map((dep) => dep.name),
+		optional: rClass.optionalClasses
+	};
+
+};
+
+//Loads node including missing class, creates the class and checks node after reload
+let testCreatedClass = (config, reload) => {
+
+	let reclassDir = createReclassDir({
+		"nodes/node1.yml": "classes:\n  - common\n  - newclass.foo\n",
+		"classes/common.yml": "parameters:\n  common: true\n"
+	});
+
+	let inventory = createInventory(reclassDir, config);
+
+	return inventory.load().then(() => {
+
+		let state = nodeState(inventory, "node1", "foo");
+
+		assert.strictEqual(state.value, null);
+		assert.deepStrictEqual(state.errors.concat(state.optional), [ "newclass.foo" ]);
+
+		let filename = writeFile(reclassDir, "classes/newclass/foo.yml", "parameters:\n  foo: bar\n");
+
+		return reload(inventory, reclassDir, filename);
+
+	}).then((inventory) => {
+
+		assert.deepStrictEqual(nodeState(inventory, "node1", "foo"), { value: "bar", errors: [], optional: [] });
+
+		removeReclassDir(reclassDir);
+
+	}, (err) => {
+
+		removeReclassDir(reclassDir);
+		throw err;
+
+	});
+
+};
+
+module.exports = {
+
+	"records nodes contributing to query results": () => {
+
+		return loadInventory("queries").then((inventory) => {
+
+			let params = inventory.getNodeRef("lb1").class.params.value;
+
+			assert.deepStrictEqual(params.backend_ips.queries, [ { query: "$[ exports:ip if exports:role == backend ]", nodes: [ "web1", "web2" ] } ]);
+			assert.deepStrictEqual(params.all_backend_ips.queries[0].nodes, [ "web1", "web2", "web3" ]);
+			assert.deepStrictEqual(params.backend_nodes.queries[0].nodes, [ "web1" ]);
+
+		});
+
+	},
+
+	"marks classes from class mappings with matching rule": () => {
+
+		return loadInventory("mappings").then((inventory) => {
+
+			let classes = inventory.getNodeRef("db-prd").class.classes.map((dep) => [ dep.name, dep.mapping ]);
+
+			assert.deepStrictEqual(classes, [
+				[ "common", "* common" ],
+				[ "role.db", "/^(\\w+)-(\\w+)$/ role.\\1 env.\\2" ],
+				[ "env.prd", "/^(\\w+)-(\\w+)$/ role.\\1 env.\\2" ],
+				[ "role.web", null ]
+			]);
+
+		});
+
+	},
+
+	"treats missing classes as optional only when ignored": () => {
+
+		return Promise.all([
+			loadInventory("optional", { ignoreClassNotFound: true }),
+			loadInventory("optional")
+		]).then((inventories) => {
+
+			let ignored = inventories[0].getClassRef("broken").class;
+			let strict = inventories[1].getClassRef("base").class;
+
+			assert.deepStrictEqual(ignored.optionalClasses, [ "missing.required" ]);
+			assert.deepStrictEqual(ignored.classes, []);
+			assert.deepStrictEqual(strict.optionalClasses, []);
+			assert.deepStrictEqual(strict.classes.map((dep) => dep.name + ":" + !!dep.error), [ "env.stg:true", "service.optional:true" ]);
+
+		});
+
+	},
+
+	"parses node environments": () => {
+
+		return Promise.all([
+			loadInventory("queries"),
+			loadInventory("reclass_params")
+		]).then((inventories) => {
+
+			assert.deepStrictEqual(inventories[0].getEnvironments(), [ "prd", "stg" ]);
+			assert.deepStrictEqual([ "web1", "web3", "lb1" ].map((name) => inventories[0].getNodeRef(name).class.environment), [ "prd", "stg", "prd" ]);
+			assert.strictEqual(inventories[0].getClassRef("lb").class.environment, null);
+			assert.strictEqual(inventories[1].getNodeRef("db1").class.environment, "base");
+
+		});
+
+	},
+
+	"resolves node again when missing class is created": () => {
+
+		return testCreatedClass({}, (inventory, reclassDir, filename) => inventory.load([ filename ]).then(() => inventory));
+
+	},
+
+	"resolves node again when optional class is created": () => {
+
+		return testCreatedClass({ ignoreClassNotFound: true }, (inventory, reclassDir, filename) => inventory.load([ filename ]).then(() => inventory));
+
+	},
+
+	"resolves node from imported cache again when missing class is created": () => {
+
+		return testCreatedClass({}, (inventory, reclassDir) => {
+
+			let cached = createInventory(reclassDir);
+
+			cached.importCache(inventory.exportCache());
+
+			return cached.load().then(() => cached);
+
+		});
+
+	},
+
+	"changes tree index with node environment and class error": () => {
+
+		let reclassDir = createReclassDir({
+			"nodes/web1.yml": "classes:\n  - common\nenvironment: stg\n",
+			"classes/common.yml": "parameters:\n  common: true\n"
+		});
+
+		let inventory = createInventory(reclassDir);
+		let trees = [];
+
+		//Rewrites file, reloads inventory and stores tree index
+		let reload = (filename, contents) => {
+
+			return inventory.load([ writeFile(reclassDir, filename, contents) ]).then(() => trees.push(inventory.getTreeIndex()));
+
+		};
+
+		return inventory.load().then(() => {
+
+			trees.push(inventory.getTreeIndex());
+
+			return reload("nodes/web1.yml", "classes:\n  - common\nenvironment: stg\n");
+
+		}).then(() => reload("nodes/web1.yml", "classes:\n  - common\nenvironment: prd\n"))
+		.then(() => reload("classes/common.yml", "parameters: [\n"))
+		.then(() => {
+
+			assert.strictEqual(trees[1], trees[0]);
+			assert.notStrictEqual(trees[2], trees[1]);
+			assert.notStrictEqual(trees[3], trees[2]);
+			assert.ok(inventory.getClassRef("common").error);
+
+			removeReclassDir(reclassDir);
+
+		}, (err) => {
+
+			removeReclassDir(reclassDir);
+			throw err;
+
+		});
+
+	},
+
+	"rebuilds nothing after restoring persisted cache of unchanged inventory": () => {
+
+		return loadInventory("queries").then((inventory) => {
+
+			let cached = new Inventory({ reclassDir: path.join(fixturesDir, "queries") }, new Logger().facility("Inventory"));
+
+			cached.importCache(v8.deserialize(v8.serialize(inventory.exportCache())));
+
+			return cached.load().then(() => {
+
+				assert.deepStrictEqual(cached.getChanges(), { classes: [], nodes: [] });
+				assert.deepStrictEqual(cached.getNodeRef("lb1").class.params.value.backend_nodes.queries[0].nodes, [ "web1" ]);
+				assert.strictEqual(cached.getTreeIndex(), inventory.getTreeIndex());
+
+			});
+
+		});
+
+	},
+
+	"reports classes and nodes rebuilt by incremental loads": () => {
+
+		let reclassDir = createReclassDir({
+			"nodes/node1.yml": "classes:\n  - app\n",
+			"nodes/node2.yml": "classes:\n  - other\n",
+			"classes/app.yml": "classes:\n  - base\nparameters:\n  app: true\n",
+			"classes/base.yml": "parameters:\n  base: true\n",
+			"classes/other.yml": "parameters:\n  other: true\n",
+			"classes/broken.yml": "parameters: [\n"
+		});
+
+		let inventory = createInventory(reclassDir);
+		let changes = [];
+
+		//Loads inventory and stores sorted changes
+		let load = (changedFiles) => {
+
+			return inventory.load(changedFiles).then(() => changes.push({
+				classes: inventory.getChanges().classes.slice().sort(),
+				nodes: inventory.getChanges().nodes.slice().sort()
+			}));
+
+		};
+
+		return load(null)
+		.then(() => load([ writeFile(reclassDir, "classes/base.yml", "parameters:\n  base: false\n") ]))
+		.then(() => load([ writeFile(reclassDir, "nodes/node2.yml", "classes:\n  - other\nparameters:\n  x: 1\n") ]))
+		.then(() => load(null))
+		.then(() => {
+
+			assert.deepStrictEqual(changes, [
+				{ classes: [ "app", "base", "broken", "other" ], nodes: [ "node1", "node2" ] },
+				{ classes: [ "app", "base", "broken" ], nodes: [ "node1" ] },
+				{ classes: [ "broken" ], nodes: [ "node2" ] },
+				{ classes: [ "broken" ], nodes: [] }
+			]);
+
+			removeReclassDir(reclassDir);
+
+		}, (err) => {
+
+			removeReclassDir(reclassDir);
+			throw err;
+
+		});
+
+	}
+
+};
\ No newline at end of file
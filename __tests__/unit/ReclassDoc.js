@@ -0,0 +1,76 @@
+/**
+ * Reclass doc generator
+ *
+ * @author Jiri Hybek <jiri@hybek.cz>
+ * @license Apache-2.0 (c) 2017 Jiri Hybek
+ */
+
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+const assert = require("assert");
+
+const Logger = require("meta2-logger").Logger;
+const ReclassDoc = require("../../dist/index").ReclassDoc;
+
+//Creates reclass directory with config and returns configuration processed by ReclassDoc
+let createConfig = (reclassConfig, config) => {
+
+	let reclassDir = fs.mkdtempSync(path.join(os.tmpdir(), "reclass-doc-test-"));
+
+	fs.writeFileSync(path.join(reclassDir, "reclass-config.yml"), reclassConfig, { encoding: "utf-8" });
+
+	config = Object.assign({ reclassDir: reclassDir, cache: false, concurrency: 1 }, config || {});
+
+	new ReclassDoc(config, new Logger());
+
+	fs.unlinkSync(path.join(reclassDir, "reclass-config.yml"));
+	fs.rmdirSync(reclassDir);
+
+	return config;
+
+};
+
+module.exports = {
+
+	"maps reclass config options to configuration": () => {
+
+		let config = createConfig([
+			"nodes_uri: inventory/nodes",
+			"classes_uri: inventory/classes",
+			"ignore_class_notfound: True",
+			"ignore_class_notfound_regexp:",
+			"  - service.*",
+			"  - .*optional"
+		].join("\n"));
+
+		assert.strictEqual(config.nodeDir, "/inventory/nodes");
+		assert.strictEqual(config.classDir, "/inventory/classes");
+		assert.strictEqual(config.ignoreClassNotFound, true);
+		assert.deepStrictEqual(config.ignoreClassNotFoundRegexp, [ "service.*", ".*optional" ]);
+
+	},
+
+	"resolves paths against inventory base uri": () => {
+
+		let config = createConfig("inventory_base_uri: model\nclasses_uri: shared/classes\n");
+
+		assert.strictEqual(config.nodeDir, "/model/nodes");
+		assert.strictEqual(config.classDir, "/model/shared/classes");
+
+	},
+
+	"keeps options given by configuration": () => {
+
+		let config = createConfig("nodes_uri: inventory/nodes\nignore_class_notfound: true\n", {
+			nodeDir: "/my-nodes",
+			ignoreClassNotFound: false
+		});
+
+		assert.strictEqual(config.nodeDir, "/my-nodes");
+		assert.strictEqual(config.classDir, "/classes");
+		assert.strictEqual(config.ignoreClassNotFound, false);
+
+	}
+
+};
\ No newline at end of file
@@ -0,0 +1,91 @@
+/**
+ * Reclass doc generator
+ *
+ * @author Jiri Hybek <jiri@hybek.cz>
+ * @license Apache-2.0 (c) 2017 Jiri Hybek
+ */
+
+const assert = require("assert");
+
+const ReferenceParser = require("../../dist/ReferenceParser");
+const REF_PART_TYPE = ReferenceParser.REF_PART_TYPE;
+
+let parser = new ReferenceParser.ReferenceParser();
+
+//Returns parts as [type, value, parts] tuples
+let simplify = (parts) => {
+
+	return parts.map((part) => part.parts ? [ REF_PART_TYPE[part.type], part.value, simplify(part.parts) ] : [ REF_PART_TYPE[part.type], part.value ]);
+
+};
+
+module.exports = {
+
+	"parses plain string and references": () => {
+
+		assert.deepStrictEqual(simplify(parser.parse("plain")), [ [ "STRING", "plain" ] ]);
+		assert.deepStrictEqual(simplify(parser.parse("a ${x:y} b")), [
+			[ "STRING", "a " ],
+			[ "REFERENCE", "${x:y}", [ [ "STRING", "x:y" ] ] ],
+			[ "STRING", " b" ]
+		]);
+
+	},
+
+	"parses nested references": () => {
+
+		assert.deepStrictEqual(simplify(parser.parse("${_param:${_param:env}_host}")), [
+			[ "REFERENCE", "${_param:${_param:env}_host}", [
+				[ "STRING", "_param:" ],
+				[ "REFERENCE", "${_param:env}", [ [ "STRING", "_param:env" ] ] ],
+				[ "STRING", "_host" ]
+			] ]
+		]);
+
+	},
+
+	"keeps escaped sentinels as text": () => {
+
+		assert.deepStrictEqual(simplify(parser.parse("\\${literal}")), [ [ "STRING", "${literal}" ] ]);
+		assert.deepStrictEqual(simplify(parser.parse("\\$[ query ]")), [ [ "STRING", "$[ query ]" ] ]);
+		assert.deepStrictEqual(simplify(parser.parse("${a\\}b}")), [ [ "REFERENCE", "${a\\}b}", [ [ "STRING", "a}b" ] ] ] ]);
+
+	},
+
+	"parses double escape as escape char followed by reference": () => {
+
+		assert.deepStrictEqual(simplify(parser.parse("\\\\${x}")), [
+			[ "STRING", "\\" ],
+			[ "REFERENCE", "${x}", [ [ "STRING", "x" ] ] ]
+		]);
+
+	},
+
+	"keeps unclosed reference as text": () => {
+
+		assert.deepStrictEqual(simplify(parser.parse("${a")), [ [ "STRING", "${a" ] ]);
+		assert.deepStrictEqual(simplify(parser.parse("$[ a")), [ [ "STRING", "$[ a" ] ]);
+
+	},
+
+	"parses inventory query": () => {
+
+		let parts = parser.parse("$[ exports:ip ]");
+
+		assert.deepStrictEqual(simplify(parts), [ [ "QUERY", "$[ exports:ip ]", [ [ "STRING", "exports:ip" ] ] ] ]);
+		assert.strictEqual(parser.hasReferences(parts), true);
+		assert.strictEqual(parser.hasReferences(parser.parse("\\${x}")), false);
+
+	},
+
+	"records source positions of references and queries": () => {
+
+		let src = "a ${b:${c}} \\${d} $[ e ]";
+		let parts = parser.parse(src);
+
+		assert.deepStrictEqual(parts.filter((part) => part.type !== REF_PART_TYPE.STRING).map((part) => src.substring(part.start, part.end)), [ "${b:${c}}", "$[ e ]" ]);
+		assert.strictEqual(src.substring(parts[1].parts[1].start, parts[1].parts[1].end), "${c}");
+
+	}
+
+};
\ No newline at end of file
@@ -0,0 +1,146 @@
+/**
+ * Reclass doc generator
+ *
+ * @author Jiri Hybek <jiri@hybek.cz>
+ * @license Apache-2.0 (c) 2017 Jiri Hybek
+ */
+
+const fs = require("fs-extra");
+const os = require("os");
+const path = require("path");
+const assert = require("assert");
+
+const Logger = require("meta2-logger").Logger;
+const Inventory = require("../../dist/Inventory").Inventory;
+const Renderer = require("../../dist/Renderer").Renderer;
+
+const fixturesDir = path.join(__dirname, "..", "fixtures");
+
+//Returns reference links of class source as [source, link, title] tuples
+let getRefLinks = (renderer, iClass) => {
+
+	let code = fs.readFileSync(iClass.filename, { encoding: "utf-8" });
+
+	return renderer.getSourceLinks(iClass, code).filter((link) => link.className === "ref-link").map((link) => [ code.substring(link.start, link.end), link.link.split("#").pop(), link.title ]);
+
+};
+
+//Loads inventory of fixture or absolute reclass directory and creates renderer, pages are not written
+let createRenderer = (fixture) => {
+
+	let logger = new Logger();
+	let reclassDir = path.resolve(fixturesDir, fixture);
+	let inventory = new Inventory({ reclassDir: reclassDir }, logger.facility("Inventory"));
+
+	return inventory.load().then(() => new Renderer({
+		outputDir: path.join(reclassDir, "doc"),
+		templateDir: path.join(__dirname, "..", "..", "template")
+	}, inventory, logger.facility("Renderer")));
+
+};
+
+module.exports = {
+
+	"renders comments as markdown with safe html": () => {
+
+		return createRenderer("comments").then((renderer) => {
+
+			let html = renderer.renderComment("Intro *em*\n\n- a\n- `x`\n\n[link](http://x) [bad](javascript:alert(1)) <b>x</b>");
+
+			assert.strictEqual(html, [
+				"<p>Intro <em>em</em></p>",
+				"<ul>",
+				"<li>a</li>",
+				"<li><code>x</code></li>",
+				"</ul>",
+				"<p><a href=\"http://x\">link</a> [bad](javascript:alert(1)) &lt;b&gt;x&lt;/b&gt;</p>",
+				""
+			].join("\n"));
+
+		});
+
+	},
+
+	"links references found by reference parser": () => {
+
+		return createRenderer("references").then((renderer) => {
+
+			let iClass = renderer.inventory.getClassRef("a");
+
+			assert.strictEqual(renderer.linkify("<p>${base:a} ${missing}</p>", iClass, "a.html"), '<p><a class="ref-link" href="a.html#param:base:a">${base:a}</a> ${missing}</p>');
+			assert.strictEqual(renderer.linkify("<p>\\${base:a}</p>", iClass, "a.html"), "<p>\\${base:a}</p>");
+			assert.strictEqual(renderer.linkify("<p>${copy:${base:a}}</p>", iClass, "a.html"), '<p>${copy:<a class="ref-link" href="a.html#param:base:a">${base:a}</a>}</p>');
+			assert.strictEqual(renderer.linkify("<a>${base:a}</a>", iClass, "a.html"), "<a>${base:a}</a>");
+
+		});
+
+	},
+
+	"links known class names outside references": () => {
+
+		return createRenderer("mappings").then((renderer) => {
+
+			let link = renderer.getClassLink(renderer.inventory.getClassRef("role.db").name);
+
+			assert.strictEqual(renderer.linkify("<p>role.db, role.unknown ${role.db}</p>"), '<p><a class="class-link" href="' + link + '">role.db</a>, role.unknown ${role.db}</p>');
+
+		});
+
+	},
+
+	"links references in class source with declared values": () => {
+
+		return createRenderer("interpolation").then((renderer) => {
+
+			assert.deepStrictEqual(getRefLinks(renderer, renderer.inventory.getClassRef("params")), [
+				[ "${_param:env}", "param:_param:env", "Declared value: prd" ],
+				[ "${host}", "param:host", "Declared value: ${_param:${_param:env}_host}" ],
+				[ "${_param:port}", "param:_param:port", "Declared value: 5432" ],
+				[ "${_param:env}", "param:_param:env", "Declared value: prd" ],
+				[ "${_param:env}", "param:_param:env", "Declared value: prd" ],
+				[ "${_param:env}", "param:_param:env", "Declared value: prd" ]
+			]);
+
+		});
+
+	},
+
+	"links references in node source with effective values": () => {
+
+		return createRenderer("errors").then((renderer) => {
+
+			assert.deepStrictEqual(getRefLinks(renderer, renderer.inventory.getNodeRef("node1")), [
+				[ "${ok}", "param:ok", "value" ]
+			]);
+
+		});
+
+	},
+
+	"escapes links in class source": () => {
+
+		let reclassDir = fs.mkdtempSync(path.join(os.tmpdir(), "reclass-doc-test-"));
+
+		fs.outputFileSync(path.join(reclassDir, "nodes", "node1.yml"), "classes:\n  - evil\n");
+		fs.outputFileSync(path.join(reclassDir, "classes", "evil.yml"), "parameters:\n  'x\"><img src=x onerror=alert(1)>': 1\n");
+
+		return createRenderer(reclassDir).then((renderer) => {
+
+			let iClass = renderer.inventory.getClassRef("evil");
+			let html = renderer.prepareSource(iClass.filename, "yaml", iClass).contents;
+
+			assert.ok(html.indexOf("<img") < 0, html);
+			assert.ok(html.indexOf('href="' + renderer.getClassLink(iClass.name) + '#param:x&quot;&gt;&lt;img src=x onerror=alert(1)&gt;"') >= 0, html);
+
+			fs.removeSync(reclassDir);
+
+		}, (err) => {
+
+			fs.removeSync(reclassDir);
+			throw err;
+
+		});
+
+	}
+
+};
\ No newline at end of file
@@ -0,0 +1,142 @@
+/**
+ * Reclass doc generator
+ *
+ * @author Jiri Hybek <jiri@hybek.cz>
+ * @license Apache-2.0 (c) 2017 Jiri Hybek
+ */
+
+const path = require("path");
+const assert = require("assert");
+
+const Resolver = require("../../dist/Resolver");
+
+const fixturesDir = path.join(__dirname, "..", "fixtures");
+
+//Returns merge types of param sources
+let mergeTypes = (param) => {
+
+	return param.sources.map((source) => source.className + ":" + Resolver.MERGE_TYPE[source.mergeType]);
+
+};
+
+module.exports = {
+
+	"records override prefix as overridden merge at any depth": () => {
+
+		let resolver = new Resolver.Resolver(path.join(fixturesDir, "overrides"));
+		let params = resolver.resolveNode("node1").params.value;
+
+		assert.deepStrictEqual(mergeTypes(params.ntp), [ "base:ORIGIN", "custom:OVERRIDDEN", "extra:MERGED" ]);
+		assert.deepStrictEqual(mergeTypes(params.services), [ "base:ORIGIN", "custom:MERGED" ]);
+		assert.deepStrictEqual(mergeTypes(params.services.value.web), [ "base:ORIGIN", "custom:OVERRIDDEN" ]);
+		assert.deepStrictEqual(mergeTypes(params.services.value.db.value.port), [ "base:ORIGIN", "custom:OVERRIDDEN" ]);
+
+	},
+
+	"collects references of nested and escaped interpolation": () => {
+
+		let resolver = new Resolver.Resolver(path.join(fixturesDir, "interpolation"));
+		let params = resolver.resolveNode("node1").params.value;
+
+		assert.deepStrictEqual(params.host.ref, [ "${_param:env}", "${_param:stg_host}" ]);
+		assert.deepStrictEqual(params.url.ref, [ "${host}", "${_param:port}", "${_param:env}" ]);
+		assert.deepStrictEqual(params.mixed.ref, [ "${_param:env}" ]);
+		assert.strictEqual(params.literal.ref, null);
+		assert.strictEqual(params.unclosed.ref, null);
+
+	},
+
+	"reports reference cycles with chain and unresolved references": () => {
+
+		let resolver = new Resolver.Resolver(path.join(fixturesDir, "errors"));
+		let errors = resolver.resolveNode("node1").refErrors;
+
+		let cycle = errors.filter((err) => err.path === "c:x")[0];
+		let missing = errors.filter((err) => err.path === "missing")[0];
+
+		assert.strictEqual(cycle.type, Resolver.REF_ERROR_TYPE.CYCLE);
+		assert.deepStrictEqual(cycle.chain, [ "a", "b", "c:x", "a" ]);
+		assert.strictEqual(missing.type, Resolver.REF_ERROR_TYPE.UNRESOLVED);
+		assert.strictEqual(missing.reference, "${nope:value}");
+
+	},
+
+	"applies deferred merges of class as declared": () => {
+
+		let resolver = new Resolver.Resolver(path.join(fixturesDir, "references"));
+		let params = resolver.resolveClass("b").params;
+		let declared = resolver.getDeclaredParam(params);
+
+		assert.deepStrictEqual(Object.keys(declared.value.copy.value), [ "b", "l" ]);
+		assert.deepStrictEqual(declared.value.copy.ref, [ "${base}" ]);
+		assert.deepStrictEqual(mergeTypes(declared.value.copy.value.b.value.y), [ "b:ORIGIN" ]);
+		assert.deepStrictEqual(declared.value.deep.ref, [ "${base:b}" ]);
+
+		//Cached class is left untouched
+		assert.strictEqual(params.value.copy.value, "${base}");
+		assert.strictEqual(params.value.copy.merges.length, 1);
+		assert.strictEqual(resolver.getDeclaredParam(params.value.base), params.value.base);
+
+	},
+
+	"lists relative class includes by fully qualified name": () => {
+
+		let resolver = new Resolver.Resolver(path.join(fixturesDir, "relative"));
+
+		assert.deepStrictEqual(resolver.resolveClass("service.mysql.server").classes.map((dep) => dep.name), [ "service.mysql.server.single", "service.mysql.common" ]);
+		assert.deepStrictEqual(resolver.resolveClass("service.mysql.server.single").classes.map((dep) => dep.name), [ "service.mysql.server.tuning" ]);
+
+	},
+
+	"injects reclass parameters with dedicated source": () => {
+
+		let resolver = new Resolver.Resolver(path.join(fixturesDir, "reclass_params"));
+		let params = resolver.resolveNode("web1.example.com").params.value;
+
+		assert.deepStrictEqual(mergeTypes(params._reclass_.value.name.value.short), [ "_reclass_:ORIGIN" ]);
+		assert.strictEqual(params._reclass_.value.name.value.short.sources[0].token, null);
+		assert.deepStrictEqual(params.hostname.ref, [ "${_reclass_:name:short}" ]);
+
+	},
+
+	"keeps removing class in application sources": () => {
+
+		let resolver = new Resolver.Resolver(path.join(fixturesDir, "overrides"));
+		let removed = resolver.resolveNode("node2").applications.ntp;
+		let added = resolver.resolveNode("node1").applications.ntp;
+
+		assert.strictEqual(removed.removed, true);
+		assert.deepStrictEqual(removed.sources.map((source) => source.className + ":" + source.removal), [ "base:false", "extra:false", "custom:true" ]);
+		assert.strictEqual(added.removed, false);
+		assert.deepStrictEqual(added.sources.map((source) => source.className + ":" + source.removal), [ "base:false", "custom:true", "extra:false" ]);
+
+	},
+
+	"includes inline comments in property comments": () => {
+
+		let resolver = new Resolver.Resolver(path.join(fixturesDir, "comments"));
+		let mysql = resolver.resolveClass("mysql").params.value.mysql;
+
+		assert.deepStrictEqual(mysql.comment, [ [ "MySQL settings" ] ]);
+		assert.deepStrictEqual(mysql.value.port.comment, [ [ "Listen port", "default MySQL port" ] ]);
+		assert.deepStrictEqual(mysql.value.hosts.value.map((item) => item.comment), [ [ [ "primary" ] ], [ [] ] ]);
+
+	},
+
+	"does not continue annotations by inline comments": () => {
+
+		let resolver = new Resolver.Resolver(path.join(fixturesDir, "comments"));
+		let rClass = resolver.resolveClass("mysql");
+		let mysql = rClass.params.value.mysql.value;
+
+		assert.strictEqual(mysql.port.annotations.default, "3306");
+		assert.strictEqual(mysql.port.annotations.type, "int");
+		assert.strictEqual(mysql.port.annotations.required, true);
+		assert.deepStrictEqual(mysql.hosts.annotations.examples, [ "- db1\n- db3" ]);
+		assert.deepStrictEqual(mysql.user.annotations.see, [ "mysql:port" ]);
+		assert.deepStrictEqual(mysql.user.comment, [ [ "Admin user" ] ]);
+		assert.deepStrictEqual(rClass.annotationWarnings, [ "Unknown annotation '@deprecated' in comment of parameter 'mysql:user'." ]);
+
+	}
+
+};
\ No newline at end of file
@@ -0,0 +1,66 @@
+/**
+ * Reclass doc generator
+ *
+ * @author Jiri Hybek <jiri@hybek.cz>
+ * @license Apache-2.0 (c) 2017 Jiri Hybek
+ */
+
+const assert = require("assert");
+
+const Util = require("../../dist/Util");
+
+//Returns names matched by class mapping rule
+let matches = (rule, names) => {
+
+	let mapping = Util.parseClassMapping(rule + " some.class");
+
+	return names.filter((name) => mapping.pattern.test(name));
+
+};
+
+module.exports = {
+
+	"matches glob wildcards": () => {
+
+		assert.deepStrictEqual(matches("*", [ "web1", "db.prd" ]), [ "web1", "db.prd" ]);
+		assert.deepStrictEqual(matches("*.prd", [ "web1.prd", "web1.prd.local", "web1xprd" ]), [ "web1.prd" ]);
+		assert.deepStrictEqual(matches("web?", [ "web1", "web12", "web" ]), [ "web1" ]);
+
+	},
+
+	"matches glob sequences": () => {
+
+		assert.deepStrictEqual(matches("web[12]", [ "web1", "web2", "web3", "web[12]" ]), [ "web1", "web2" ]);
+		assert.deepStrictEqual(matches("[abc]x", [ "ax", "bx", "dx" ]), [ "ax", "bx" ]);
+		assert.deepStrictEqual(matches("[!abc]x", [ "ax", "dx", "ex" ]), [ "dx", "ex" ]);
+		assert.deepStrictEqual(matches("node[0-9]", [ "node5", "nodex" ]), [ "node5" ]);
+		assert.deepStrictEqual(matches("x[]]", [ "x]", "x" ]), [ "x]" ]);
+
+	},
+
+	"matches escaped and unclosed glob characters literally": () => {
+
+		assert.deepStrictEqual(matches("web\\*", [ "web*", "web1" ]), [ "web*" ]);
+		assert.deepStrictEqual(matches("web\\[1]", [ "web[1]", "web1" ]), [ "web[1]" ]);
+		assert.deepStrictEqual(matches("web[1", [ "web[1", "web1" ]), [ "web[1" ]);
+		assert.deepStrictEqual(matches("a+b(c)", [ "a+b(c)", "aab" ]), [ "a+b(c)" ]);
+
+	},
+
+	"parses regexp class mapping with groups": () => {
+
+		let mapping = Util.parseClassMapping("/^(\\w+)-(\\d+)$/ role.\\1 id.\\2");
+
+		assert.strictEqual(mapping.isRegExp, true);
+		assert.deepStrictEqual(mapping.classes, [ "role.\\1", "id.\\2" ]);
+		assert.deepStrictEqual(mapping.pattern.exec("web-01").slice(1), [ "web", "01" ]);
+
+	},
+
+	"refuses class mapping without classes": () => {
+
+		assert.throws(() => Util.parseClassMapping("web*"), /Invalid class mapping/);
+
+	}
+
+};
\ No newline at end of file
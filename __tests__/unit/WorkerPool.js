@@ -0,0 +1,82 @@
+/**
+ * Reclass doc generator
+ *
+ * @author Jiri Hybek <jiri@hybek.cz>
+ * @license Apache-2.0 (c) 2017 Jiri Hybek
+ */
+
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+const assert = require("assert");
+
+const WorkerPool = require("../../dist/WorkerPool").WorkerPool;
+
+//Creates worker script doubling numbers and exiting on other messages
+let createScript = () => {
+
+	let filename = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "reclass-doc-test-")), "worker.js");
+
+	fs.writeFileSync(filename, [
+		"const workerThreads = require('worker_threads');",
+		"workerThreads.parentPort.on('message', (data) => {",
+		"	if(typeof data !== 'number') return process.exit(2);",
+		"	workerThreads.parentPort.postMessage(data * 2);",
+		"});"
+	].join("\n"), { encoding: "utf-8" });
+
+	return filename;
+
+};
+
+//Removes worker script
+let removeScript = (filename) => {
+
+	fs.unlinkSync(filename);
+	fs.rmdirSync(path.dirname(filename));
+
+};
+
+module.exports = {
+
+	"replaces worker exited while processing job": () => {
+
+		//Nothing to test when Node.js does not support worker threads
+		if(!WorkerPool.isSupported())
+			return;
+
+		let filename = createScript();
+		let pool = new WorkerPool(filename, 1);
+
+		let done = () => {
+
+			pool.terminate();
+			removeScript(filename);
+
+		};
+
+		return pool.run("exit").then(() => {
+
+			throw new Error("Job should be rejected.");
+
+		}, (err) => {
+
+			assert.ok(/exited with code 2/.test(err.message), err.message);
+
+			return Promise.all([ pool.run(1), pool.run(2) ]);
+
+		}).then((results) => {
+
+			assert.deepStrictEqual(results, [ 2, 4 ]);
+			done();
+
+		}, (err) => {
+
+			done();
+			throw err;
+
+		});
+
+	}
+
+};
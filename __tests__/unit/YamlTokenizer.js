@@ -0,0 +1,141 @@
+/**
+ * Reclass doc generator
+ *
+ * @author Jiri Hybek <jiri@hybek.cz>
+ * @license Apache-2.0 (c) 2017 Jiri Hybek
+ */
+
+const assert = require("assert");
+
+const YamlTokenizer = require("../../dist/YamlTokenizer").YamlTokenizer;
+
+let tokenizer = new YamlTokenizer();
+
+module.exports = {
+
+	"expands merge keys with explicit keys taking precedence": () => {
+
+		let root = tokenizer.parse([
+			"defaults: &defaults",
+			"  port: 80",
+			"  tls: false",
+			"web:",
+			"  <<: *defaults",
+			"  tls: true"
+		].join("\n"));
+
+		let web = root.value.web;
+
+		assert.deepStrictEqual(Object.keys(web.value).sort(), [ "port", "tls" ]);
+		assert.strictEqual(web.value.tls.value, "true");
+		assert.strictEqual(web.value.tls.anchor, undefined);
+		assert.strictEqual(web.value.port.value, "80");
+		assert.deepStrictEqual(web.value.port.anchor, { name: "defaults", line: 0, column: 10, pointer: 10 });
+		assert.strictEqual(web.value.port.line, 1);
+
+	},
+
+	"expands sequence of merged maps in order": () => {
+
+		let root = tokenizer.parse([
+			"a: &a",
+			"  k: 1",
+			"  j: 1",
+			"b: &b",
+			"  k: 2",
+			"c:",
+			"  <<: [ *b, *a, { i: 3 } ]"
+		].join("\n"));
+
+		let c = root.value.c.value;
+
+		assert.strictEqual(c.k.value, "2");
+		assert.strictEqual(c.k.anchor.name, "b");
+		assert.strictEqual(c.j.anchor.name, "a");
+		assert.strictEqual(c.i.value, "3");
+		assert.strictEqual(c.i.anchor, undefined);
+
+	},
+
+	"points aliased tokens to anchor": () => {
+
+		let root = tokenizer.parse("base: &base\n  port: 80\ncopy: *base\n");
+
+		assert.strictEqual(root.value.base.anchor, undefined);
+		assert.strictEqual(root.value.copy.anchor.name, "base");
+		assert.strictEqual(root.value.copy.anchor.line, 0);
+		assert.strictEqual(root.value.copy.value.port.anchor.name, "base");
+
+	},
+
+	"refuses merge of scalar": () => {
+
+		assert.throws(() => tokenizer.parse("a: &x 1\nb:\n  <<: *x\n"), /Merge key at line 1 expects map or sequence of maps/);
+
+	},
+
+	"captures trailing inline comments": () => {
+
+		let server = tokenizer.parse([
+			"server:  # server settings",
+			"  # Port",
+			"  port: 3306  # default MySQL port",
+			"  hosts:",
+			"    - a  # first",
+			"    - b",
+			"  flow: { a: 1 }  # flow map",
+			"  quoted: \"x # y\"  # after quote",
+			"  url: http://x#y",
+			"  text: |",
+			"    line # not comment"
+		].join("\n")).value.server;
+
+		assert.strictEqual(server.inlineComment, "server settings");
+		assert.strictEqual(server.value.port.inlineComment, "default MySQL port");
+		assert.deepStrictEqual(server.value.port.comment, [ "Port" ]);
+		assert.deepStrictEqual(server.value.hosts.value.map((item) => item.inlineComment), [ "first", undefined ]);
+		assert.strictEqual(server.value.flow.inlineComment, "flow map");
+		assert.strictEqual(server.value.quoted.inlineComment, "after quote");
+		assert.strictEqual(server.value.quoted.value, "x # y");
+		assert.strictEqual(server.value.url.inlineComment, undefined);
+		assert.strictEqual(server.value.url.value, "http://x#y");
+		assert.strictEqual(server.value.text.inlineComment, undefined);
+		assert.strictEqual(server.value.text.value, "line # not comment");
+
+	},
+
+	"tracks end positions without trailing comments": () => {
+
+		let src = [
+			"server:",
+			"  port: 3306  # c",
+			"  hosts:",
+			"    - a",
+			"    - b",
+			"  # trailing comment",
+			"",
+			"text: |",
+			"  one",
+			"  two",
+			"",
+			"flow: [ 1, 2 ]",
+			"last: x"
+		].join("\n");
+
+		let root = tokenizer.parse(src);
+
+		//Returns token range and its source
+		let range = (token) => [ token.line, token.column, token.endLine, token.endColumn, src.substring(token.pointer, token.endPointer) ];
+
+		assert.deepStrictEqual(range(root.value.server), [ 1, 2, 4, 7, "port: 3306  # c\n  hosts:\n    - a\n    - b" ]);
+		assert.deepStrictEqual(range(root.value.server.value.port), [ 1, 8, 1, 12, "3306" ]);
+		assert.deepStrictEqual(range(root.value.server.value.hosts), [ 3, 4, 4, 7, "- a\n    - b" ]);
+		assert.deepStrictEqual(range(root.value.server.value.hosts.value[1]), [ 4, 6, 4, 7, "b" ]);
+		assert.deepStrictEqual(range(root.value.text), [ 7, 6, 9, 5, "|\n  one\n  two" ]);
+		assert.deepStrictEqual(range(root.value.flow), [ 11, 6, 11, 14, "[ 1, 2 ]" ]);
+		assert.deepStrictEqual(range(root.value.last), [ 12, 6, 12, 7, "x" ]);
+		assert.strictEqual(src.substring(root.value.server.value.hosts.keyPointer, root.value.server.value.hosts.keyEndPointer), "hosts");
+
+	}
+
+};
\ No newline at end of file
@@ -0,0 +1,163 @@
+/**
+ * Reclass doc generator
+ *
+ * @author Jiri Hybek <jiri@hybek.cz>
+ * @license Apache-2.0 (c) 2017 Jiri Hybek
+ */
+
+/**
+ * Parameter annotations interface
+ */
+export interface IParamAnnotations {
+	type: string;
+	required: boolean;
+	default: string;
+	examples: Array<string>;
+	see: Array<string>;
+	unknown: Array<string>;
+}
+
+/**
+ * Parsed comment interface
+ */
+export interface IParsedComment {
+	description: Array<string>;
+	annotations: IParamAnnotations;
+}
+
+/**
+ * Annotation parser class
+ *
+ * Parses @type, @required, @default, @example and @see tags from comment lines
+ */
+export class AnnotationParser {
+
+	/** Known tags */
+	public tags: Array<string> = [ "type", "required", "default", "example", "see" ];
+
+	/**
+	 * Parses comment lines to description and annotations
+	 *
+	 * Lines following @default and @example tags are appended to tag value,
+	 * annotations are null if comment has no tags.
+	 *
+	 * @param comment Comment lines
+	 */
+	public parse(comment: Array<string>): IParsedComment {
+
+		let result: IParsedComment = {
+			description: [],
+			annotations: null
+		};
+
+		let lastTag: string = null;
+		let lastValue: Array<string> = null;
+
+		let flush = () => {
+
+			if(lastTag === "default")
+				result.annotations.default = lastValue.join("\n").trim();
+			else if(lastTag === "example")
+				result.annotations.examples.push(lastValue.join("\n").trim());
+
+			lastTag = null;
+			lastValue = null;
+
+		};
+
+		for(let i = 0; i < comment.length; i++){
+
+			let match = /^@([a-zA-Z_\-]+)\s*(.*)$/.exec(comment[i]);
+
+			//Continuation or description line
+			if(!match){
+
+				if(lastValue)
+					lastValue.push(comment[i]);
+				else
+					result.description.push(comment[i]);
+
+				continue;
+
+			}
+
+			flush();
+
+			if(!result.annotations)
+				result.annotations = {
+					type: null,
+					required: false,
+					default: null,
+					examples: [],
+					see: [],
+					unknown: []
+				};
+
+			let tag = match[1].toLowerCase();
+			let value = match[2].trim();
+
+			switch(tag){
+
+				case "type":
+					result.annotations.type = value;
+					break;
+
+				case "required":
+					result.annotations.required = ( value === "" || value.toLowerCase() === "true" );
+					break;
+
+				case "default":
+				case "example":
+					lastTag = tag;
+					lastValue = [ value ];
+					break;
+
+				case "see":
+					value.split(/[\s,]+/).forEach((ref) => {
+						if(ref !== "" && result.annotations.see.indexOf(ref) < 0)
+							result.annotations.see.push(ref);
+					});
+					break;
+
+				default:
+					result.annotations.unknown.push(match[1]);
+
+			}
+
+		}
+
+		flush();
+
+		return result;
+
+	}
+
+	/**
+	 * Merges annotations, values of source takes precedence
+	 *
+	 * @param target Target annotations
+	 * @param source Source annotations
+	 */
+	public merge(target: IParamAnnotations, source: IParamAnnotations): IParamAnnotations {
+
+		if(!target) return source;
+		if(!source) return target;
+
+		let concatUnique = (a: Array<string>, b: Array<string>) => {
+
+			return a.concat(b.filter((item) => a.indexOf(item) < 0));
+
+		};
+
+		return {
+			type: source.type !== null ? source.type : target.type,
+			required: source.required || target.required,
+			default: source.default !== null ? source.default : target.default,
+			examples: concatUnique(target.examples, source.examples),
+			see: concatUnique(target.see, source.see),
+			unknown: concatUnique(target.unknown, source.unknown)
+		};
+
+	}
+
+}
\ No newline at end of file
@@ -9,8 +9,10 @@ import fs = require('fs');
 import crypto = require('crypto');
 import {Facility} from 'meta2-logger';
 
-import {Resolver, IResolvedClass} from './Resolver';
-import {IClassName, parseClassName, CLASS_TYPE} from './Util';
+import {Resolver, IResolvedClass, IResolvedParam, IExportsInventory, INodeExports, IResolverCache} from './Resolver';
+import {WorkerPool} from './WorkerPool';
+import {IResolverWorkerConfig, IResolverWorkerResult} from './ResolverWorker';
+import {IClassName, parseClassName, CLASS_TYPE, IClassMapping, parseClassMapping, loadReclassConfig} from './Util';
 
 /**
  * Inventory configuration interface
@@ -19,6 +21,36 @@ export interface IInventoryConfig {
 	reclassDir: string;
 	classesDir?: string;
 	nodesDir?: string;
+	reclassConfigFile?: string;
+	ignoreClassNotFound?: boolean;
+	ignoreClassNotFoundRegexp?: Array<string>;
+	concurrency?: number;
+}
+
+/**
+ * Persisted inventory cache interface
+ */
+export interface IInventoryCache {
+	resolver: IResolverCache;
+	classMappingsFingerprint: string;
+	interpolatedNodes: { [K: string]: IInterpolatedNode };
+}
+
+/**
+ * Classes and nodes rebuilt by last load
+ */
+export interface IInventoryChanges {
+	classes: Array<string>;
+	nodes: Array<string>;
+}
+
+/**
+ * Interpolated node interface
+ */
+export interface IInterpolatedNode {
+	source: IResolvedClass;
+	exports: INodeExports;
+	class: IResolvedClass;
 }
 
 /**
@@ -71,6 +103,15 @@ export class Inventory {
 	/** Nodes sub-directory */
 	protected nodesDir: string = '/nodes';
 
+	/** Reclass config filename */
+	protected reclassConfigFile: string;
+
+	/** Number of worker threads resolving nodes, nodes are resolved in main thread when not greater than one */
+	protected concurrency: number;
+
+	/** Minimal number of nodes per worker thread, each worker reads and resolves classes again */
+	protected workerMinNodes: number = 20;
+
 	/** Resolver instance */
 	protected resolver: Resolver;
 
@@ -89,6 +130,18 @@ export class Inventory {
 	/** Tree overall index */
 	protected treeIndex: string = null;
 
+	/** Fingerprint of loaded class mappings */
+	protected classMappingsFingerprint: string = null;
+
+	/** Interpolated nodes of last load: name => interpolated node */
+	protected interpolatedNodes: { [K: string]: IInterpolatedNode } = {};
+
+	/** Classes and nodes rebuilt by last load */
+	protected changes: IInventoryChanges = {
+		classes: [],
+		nodes: []
+	};
+
 	/**
 	 * Inventory constructor
 	 *
@@ -100,15 +153,24 @@ export class Inventory {
 		this.reclassDir = config.reclassDir;
 		this.classesDir = config.classesDir || "/classes";
 		this.nodesDir = config.nodesDir || "/nodes";
+		this.reclassConfigFile = config.reclassConfigFile || (this.reclassDir + "/reclass-config.yml");
+		this.concurrency = config.concurrency || 1;
 
 		//Setup resolver
 		this.resolver = new Resolver(this.reclassDir);
 		this.resolver.classesDir = this.classesDir;
 		this.resolver.nodesDir = this.nodesDir;
+		this.resolver.ignoreClassNotFound = config.ignoreClassNotFound || false;
+		this.resolver.ignoreClassNotFoundRegexp = (config.ignoreClassNotFoundRegexp || []).map((expr) => new RegExp("^(?:" + expr + ")"));
 		
 		//Assign logger
 		this.logger = logger;
 
+		if(this.concurrency > 1 && !WorkerPool.isSupported()){
+			this.logger.warn("Worker threads are not supported by this Node.js version, nodes are resolved in main thread.");
+			this.concurrency = 1;
+		}
+
 		//Create root index
 		this.index = {
 			name: null,
@@ -132,8 +194,17 @@ export class Inventory {
 	protected resolveClass(classPath: string, filename: string) : IInventoryClass {
 
 		let className = parseClassName(CLASS_TYPE.CLASS, classPath);
+		let cached = this.resolver.getCachedClass(this.classesDir + "/" + className.fullName);
+
+		if(cached){
 
-		this.logger.info("Reading class '" + classPath + "' as '" + className.fullName + "'...");
+			this.logger.debug("Class '" + className.fullName + "' is up to date.");
+
+		} else {
+
+			this.logger.info("Reading class '" + classPath + "' as '" + className.fullName + "'...");
+
+		}
 
 		let rClass: IInventoryClass = {
 			path: classPath,
@@ -147,6 +218,9 @@ export class Inventory {
 
 			rClass.class = this.resolver.resolveClass(className.fullName);
 
+			for(let i = 0; i < rClass.class.annotationWarnings.length; i++)
+				this.logger.warn("Class '" + className.fullName + "':", rClass.class.annotationWarnings[i]);
+
 		} catch(err) {
 
 			rClass.error = err;
@@ -162,17 +236,19 @@ export class Inventory {
 	}
 
 	/**
-	 * Resolves node and returns inventory object
+	 * Creates node inventory object, node is resolved later by resolveNodes
 	 *
 	 * @param nodePath Relative node path
 	 * @param filename Node filename
-	 * @param nodeName Node name for resolver
 	 */
-	protected resolveNode(nodePath: string, filename: string) : IInventoryClass {
+	protected createNode(nodePath: string, filename: string) : IInventoryClass {
 
 		let nodeName = parseClassName(CLASS_TYPE.NODE, nodePath);
 
-		this.logger.info("Reading node '" + nodePath + "' as '" + nodeName.fullName + "'...");
+		if(this.resolver.getCachedClass(this.nodesDir + "/" + nodeName.fullName))
+			this.logger.debug("Node '" + nodeName.fullName + "' is up to date.");
+		else
+			this.logger.info("Reading node '" + nodePath + "' as '" + nodeName.fullName + "'...");
 
 		let rClass: IInventoryClass = {
 			path: nodePath,
@@ -182,21 +258,121 @@ export class Inventory {
 			error: null
 		};
 
-		try {
+		this.nodeCache[nodeName.fullName] = rClass;
 
-			rClass.class = this.resolver.resolveNode(nodeName.fullName);
+		return rClass;
 
-		} catch(err) {
+	}
 
-			rClass.error = err;
-			
-			this.logger.warn("Failed to load node '" + filename + "':", String(err));
+	/**
+	 * Sets resolved class or error of node
+	 *
+	 * @param rClass Node inventory object
+	 * @param resolved Resolved node
+	 * @param error Resolve error
+	 */
+	protected setNodeResult(rClass: IInventoryClass, resolved: IResolvedClass, error: Error){
+
+		if(error){
+
+			rClass.error = error;
+
+			this.logger.warn("Failed to load node '" + rClass.filename + "':", String(error));
+
+			return;
 
 		}
 
-		this.nodeCache[nodeName.fullName] = rClass;
+		rClass.class = resolved;
 
-		return rClass;
+		for(let i = 0; i < resolved.annotationWarnings.length; i++)
+			this.logger.warn("Node '" + rClass.name.fullName + "':", resolved.annotationWarnings[i]);
+
+	}
+
+	/**
+	 * Resolves nodes
+	 *
+	 * Nodes which are not cached by resolver are resolved in worker threads
+	 * when concurrency is greater than one and there are enough of them
+	 * for at least two workers. Nodes are interpolated in main thread later
+	 * as interpolation needs exports of all nodes.
+	 *
+	 * @param nodes Node inventory objects
+	 */
+	protected resolveNodes(nodes: Array<IInventoryClass>) : Promise<void> {
+
+		let pending = ( this.concurrency > 1 ? nodes.filter((node) => !this.resolver.getCachedClass(this.nodesDir + "/" + node.name.fullName)) : [] );
+		let size = Math.min(this.concurrency, Math.floor(pending.length / this.workerMinNodes));
+
+		if(size < 2)
+			pending = [];
+
+		for(let i = 0; i < nodes.length; i++){
+
+			if(pending.indexOf(nodes[i]) >= 0)
+				continue;
+
+			try {
+
+				this.setNodeResult(nodes[i], this.resolver.resolveNode(nodes[i].name.fullName, false), null);
+
+			} catch(err) {
+
+				this.setNodeResult(nodes[i], null, err);
+
+			}
+
+		}
+
+		if(pending.length === 0)
+			return Promise.resolve();
+
+		let workerConfig: IResolverWorkerConfig = {
+			reclassDir: this.reclassDir,
+			classesDir: this.classesDir,
+			nodesDir: this.nodesDir,
+			ignoreClassNotFound: this.resolver.ignoreClassNotFound,
+			ignoreClassNotFoundRegexp: this.resolver.ignoreClassNotFoundRegexp,
+			classMappings: this.resolver.classMappings
+		};
+
+		let pool = new WorkerPool(__dirname + "/ResolverWorker.js", size, workerConfig);
+
+		this.logger.info("Resolving " + pending.length + " nodes in " + size + " worker threads...");
+
+		let jobs = pending.map((node) => pool.run(node.name.fullName).then(null, (err) => {
+
+			let result: IResolverWorkerResult = {
+				name: node.name.fullName,
+				class: null,
+				error: err
+			};
+
+			return result;
+
+		}));
+
+		//Results are merged in node order so dependents are same as when resolved in main thread
+		return Promise.all(jobs).then((results: Array<IResolverWorkerResult>) => {
+
+			pool.terminate();
+
+			for(let i = 0; i < results.length; i++){
+
+				if(results[i].class)
+					this.resolver.addResolved(results[i].class);
+
+				this.setNodeResult(pending[i], results[i].class, results[i].error);
+
+			}
+
+		}, (err) => {
+
+			pool.terminate();
+			throw err;
+
+		});
 
 	}
 
@@ -249,11 +425,12 @@ export class Inventory {
 
 		let hashStr = [ index.name ];
 
+		//Environments and errors are shown in navigation and class lists
 		for(let i in index.classes)
-			hashStr.push("cls:" + index.classes[i].name);
+			hashStr.push("cls:" + i + ":" + ( index.classes[i].class ? index.classes[i].class.environment : "no-class" ) + ( index.classes[i].error ? ":error" : "" ));
 
 		for(let i in index.docs)
-			hashStr.push("doc:" + index.docs[i].name);
+			hashStr.push("doc:" + index.docs[i].name + ( index.docs[i].error ? ":error" : "" ));
 
 		for(let i in index.dirs)
 			hashStr.push("dir:" + index.dirs[i].name);
@@ -356,8 +533,9 @@ export class Inventory {
 	 *
 	 * @param dir Relative nodes directory
 	 * @param name Directory name
+	 * @param nodes List to add found nodes to
 	 */
-	protected readNodes(dir: string, name: string) : IInventoryIndex {
+	protected readNodes(dir: string, name: string, nodes: Array<IInventoryClass>) : IInventoryIndex {
 
 		let path = this.reclassDir + this.nodesDir + dir;
 
@@ -389,7 +567,7 @@ export class Inventory {
 			//Is directory?
 			if(fs.statSync(filePath).isDirectory()){
 
-				this.readNodes(dir + "/" + file, file);
+				this.readNodes(dir + "/" + file, file, nodes);
 
 			//Is file
 			} else {
@@ -417,7 +595,8 @@ export class Inventory {
 
 					let classPath = dir + "/" + basename;
 
-					index.classes[basename] = this.resolveNode(classPath, filePath);
+					index.classes[basename] = this.createNode(classPath, filePath);
+					nodes.push(index.classes[basename]);
 
 				}
 
@@ -432,6 +611,51 @@ export class Inventory {
 
 	}
 
+	/**
+	 * Loads class mappings from reclass config
+	 */
+	protected loadClassMappings(){
+
+		let filename = this.reclassConfigFile;
+		let mappings: Array<IClassMapping> = [];
+
+		try {
+
+			let config = loadReclassConfig(filename);
+
+			if(config && config['class_mappings'] instanceof Array){
+
+				this.logger.debug("Reading class mappings from '%s'...", filename);
+
+				for(let i = 0; i < config['class_mappings'].length; i++)
+					mappings.push( parseClassMapping(config['class_mappings'][i]) );
+
+			}
+
+		} catch(err) {
+
+			this.logger.warn("Failed to read class mappings from '" + filename + "':", String(err));
+
+		}
+
+		let fingerprint = crypto.createHash('md5').update(mappings.map((m) => m.rule).join("\n")).digest('hex');
+
+		//Invalidate nodes when mappings has changed
+		if(this.classMappingsFingerprint !== null && this.classMappingsFingerprint !== fingerprint){
+
+			let cacheList = this.resolver.getCacheList();
+
+			for(let i = 0; i < cacheList.length; i++)
+				if(cacheList[i].substr(0, this.nodesDir.length + 1) === this.nodesDir + "/")
+					this.resolver.invalidate(cacheList[i]);
+
+		}
+
+		this.classMappingsFingerprint = fingerprint;
+		this.resolver.classMappings = mappings;
+
+	}
+
 	/**
 	 * Loads classes in model
 	 */
@@ -446,7 +670,116 @@ export class Inventory {
 	 */
 	protected loadNodes(){
 
-		this.index.dirs["nodes"] = this.readNodes("", "nodes");
+		let nodes: Array<IInventoryClass> = [];
+
+		this.nodeCache = {};
+
+		this.index.dirs["nodes"] = this.readNodes("", "nodes", nodes);
+
+		return this.resolveNodes(nodes).then(() => {
+
+			this.fingerprintIndex(this.index.dirs["nodes"]);
+
+		});
+
+	}
+
+	/**
+	 * Interpolates loaded nodes
+	 *
+	 * Exports of all nodes are resolved first so they can be used by inventory queries.
+	 * Nodes which have not been resolved again are interpolated only when they
+	 * contain inventory queries and some other node has changed.
+	 */
+	protected interpolateNodes(){
+
+		let exportsInventory: IExportsInventory = {};
+		let interpolated: { [K: string]: IInterpolatedNode } = {};
+		let inventoryChanged = false;
+
+		for(let i in this.nodeCache){
+
+			let source = this.nodeCache[i].class;
+
+			if(!source) continue;
+
+			if(this.interpolatedNodes[i] && this.interpolatedNodes[i].source === source){
+
+				interpolated[i] = this.interpolatedNodes[i];
+
+			} else {
+
+				inventoryChanged = true;
+
+				interpolated[i] = {
+					source: source,
+					exports: null,
+					class: null
+				};
+
+				try {
+
+					interpolated[i].exports = this.resolver.getNodeExports(source);
+
+				} catch(err) {
+
+					this.logger.warn("Failed to resolve exports of node '" + i + "':", String(err));
+
+				}
+
+			}
+
+			if(interpolated[i].exports)
+				exportsInventory[i] = interpolated[i].exports;
+
+		}
+
+		//Removed nodes
+		for(let i in this.interpolatedNodes)
+			if(!interpolated[i])
+				inventoryChanged = true;
+
+		for(let i in this.nodeCache){
+
+			let rClass = this.nodeCache[i];
+			let node = interpolated[i];
+
+			if(!rClass.class) continue;
+
+			//Fingerprint of node with query results differs from fingerprint of its source
+			if(node.class && ( !inventoryChanged || node.class.fingerprint === node.source.fingerprint )){
+
+				rClass.class = node.class;
+				continue;
+
+			}
+
+			this.logger.debug("Interpolating node '%s'...", i);
+
+			this.changes.nodes.push(i);
+
+			try {
+
+				rClass.class = node.class = this.resolver.interpolateClass(rClass.class, exportsInventory);
+
+				for(let j = 0; j < rClass.class.refErrors.length; j++)
+					this.logger.warn("Node '" + i + "':", rClass.class.refErrors[j].message);
+
+				for(let j = 0; j < rClass.class.constantViolations.length; j++)
+					this.logger.warn("Node '" + i + "':", rClass.class.constantViolations[j].message);
+
+			} catch(err) {
+
+				rClass.class = null;
+				rClass.error = err;
+
+				this.logger.warn("Failed to interpolate node '" + rClass.filename + "':", String(err));
+
+			}
+
+		}
+
+		this.interpolatedNodes = interpolated;
 
 	}
 
@@ -468,28 +801,64 @@ export class Inventory {
 
 	/**
 	 * Loads inventory
+	 *
+	 * When changed files are known, only classes loaded from them and their dependents
+	 * are resolved again, otherwise all cached classes are checked for modifications.
+	 *
+	 * @param changedFiles Changed filenames or directories
 	 */
-	public load(){
+	public load(changedFiles: Array<string> = null) : Promise<void> {
+
+		this.changes = {
+			classes: [],
+			nodes: []
+		};
+
+		if(changedFiles)
+			this.resolver.invalidateFiles(changedFiles);
+		else
+			this.resolver.invalidateModified();
 
-		this.resolver.invalidateModified();
+		this.resolver.flushResolved();
+
+		this.loadClassMappings();
 
 		this.loadClasses();
-		this.loadNodes();
 
-		//Load readme
-		let readmePath;
+		let resolveStart = Date.now();
+
+		return this.loadNodes().then(() => {
+
+			//Classes are resolved also as dependencies of other classes, resolver reports all of them
+			let classPrefix = this.classesDir + "/";
+
+			this.changes.classes = this.resolver.flushResolved()
+				.filter((classId) => classId.substr(0, classPrefix.length) === classPrefix)
+				.map((classId) => classId.substr(classPrefix.length));
+
+			let interpolateStart = Date.now();
+
+			this.interpolateNodes();
 
-		if(fs.existsSync(this.reclassDir + "/README.md"))
-			readmePath = "/README.md";
-		else if(fs.existsSync(this.reclassDir + "readme.md"))
-			readmePath = "/readme.md";
+			//Only resolving runs in worker threads, interpolation needs exports of all nodes
+			this.logger.debug("Nodes resolved in " + (interpolateStart - resolveStart) + "ms and interpolated in " + (Date.now() - interpolateStart) + "ms.");
 
-		if(readmePath)
-			this.index.docs['README'] = this.resolveDocument(readmePath, this.reclassDir + readmePath, "README");
+			//Load readme
+			let readmePath;
 
-		this.fingerprintIndex(this.index);
+			if(fs.existsSync(this.reclassDir + "/README.md"))
+				readmePath = "/README.md";
+			else if(fs.existsSync(this.reclassDir + "readme.md"))
+				readmePath = "/readme.md";
 
-		this.treeIndex = this.fingerprintTree(this.index);
+			if(readmePath)
+				this.index.docs['README'] = this.resolveDocument(readmePath, this.reclassDir + readmePath, "README");
+
+			this.fingerprintIndex(this.index);
+
+			this.treeIndex = this.fingerprintTree(this.index);
+
+		});
 
 	}
 
@@ -511,6 +880,43 @@ export class Inventory {
 
 	}
 
+	/**
+	 * Returns classes and nodes rebuilt by last load
+	 */
+	public getChanges(){
+
+		return this.changes;
+
+	}
+
+	/**
+	 * Returns resolver cache, class mappings fingerprint and interpolated nodes to be persisted
+	 *
+	 * Interpolated nodes refers to cached nodes, so they must be persisted together.
+	 */
+	public exportCache() : IInventoryCache {
+
+		return {
+			resolver: this.resolver.exportCache(),
+			classMappingsFingerprint: this.classMappingsFingerprint,
+			interpolatedNodes: this.interpolatedNodes
+		};
+
+	}
+
+	/**
+	 * Restores persisted cache, modified classes are invalidated on next load
+	 *
+	 * @param data Persisted cache
+	 */
+	public importCache(data: IInventoryCache){
+
+		this.resolver.importCache(data.resolver);
+		this.classMappingsFingerprint = data.classMappingsFingerprint;
+		this.interpolatedNodes = data.interpolatedNodes;
+
+	}
+
 	/**
 	 * Returns reference to cached class
 	 *
@@ -533,4 +939,30 @@ export class Inventory {
 
 	}
 
+	/**
+	 * Returns param tree with deferred merges applied as declared
+	 *
+	 * @param param Parameter
+	 */
+	public getDeclaredParam(param: IResolvedParam){
+
+		return this.resolver.getDeclaredParam(param);
+
+	}
+
+	/**
+	 * Returns sorted list of node environments
+	 */
+	public getEnvironments(){
+
+		let environments: Array<string> = [];
+
+		for(let i in this.nodeCache)
+			if(this.nodeCache[i].class && environments.indexOf(this.nodeCache[i].class.environment) < 0)
+				environments.push(this.nodeCache[i].class.environment);
+
+		return environments.sort();
+
+	}
+
 }
\ No newline at end of file
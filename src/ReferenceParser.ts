@@ -0,0 +1,208 @@
+/**
+ * Reclass doc generator
+ *
+ * @author Jiri Hybek <jiri@hybek.cz>
+ * @license Apache-2.0 (c) 2017 Jiri Hybek
+ */
+
+export enum REF_PART_TYPE {
+	STRING,
+	REFERENCE,
+	QUERY
+}
+
+/**
+ * Reference part interface
+ */
+export interface IRefPart {
+	type: REF_PART_TYPE;
+	value: string;
+	parts: Array<IRefPart>;
+	start?: number;
+	end?: number;
+}
+
+/**
+ * Reference parser class
+ *
+ * Parses reclass reference grammar - ${...} with nesting, $[...] inventory
+ * queries and \ escaping
+ */
+export class ReferenceParser {
+
+	/** Escape character */
+	public escapeChar: string = "\\";
+
+	/** Reference opening sentinel */
+	public refOpen: string = "${";
+
+	/** Reference closing sentinel */
+	public refClose: string = "}";
+
+	/** Inventory query opening sentinel */
+	public queryOpen: string = "$[";
+
+	/** Inventory query closing sentinel */
+	public queryClose: string = "]";
+
+	/**
+	 * Parses string to parts
+	 *
+	 * STRING parts contains unescaped text, REFERENCE parts contains raw
+	 * reference as value and parsed reference key as parts. QUERY parts
+	 * contains raw query as value and query text as single STRING part.
+	 * REFERENCE and QUERY parts holds their start and end position in source.
+	 *
+	 * @param src Source string
+	 */
+	public parse(src: string): Array<IRefPart> {
+
+		let pos = 0;
+
+		let parseParts = (inRef: boolean) : Array<IRefPart> => {
+
+			let parts: Array<IRefPart> = [];
+			let buffer = "";
+
+			let flush = () => {
+
+				if(buffer.length > 0)
+					parts.push({ type: REF_PART_TYPE.STRING, value: buffer, parts: null });
+
+				buffer = "";
+
+			};
+
+			while(pos < src.length){
+
+				//Escaped sentinels
+				if(src.substr(pos, 1) === this.escapeChar){
+
+					let next = pos + this.escapeChar.length;
+
+					//Double escape - literal escape char followed by reference
+					if(src.substr(next, this.escapeChar.length) === this.escapeChar && src.substr(next + this.escapeChar.length, this.refOpen.length) === this.refOpen){
+						buffer+= this.escapeChar;
+						pos = next + this.escapeChar.length;
+						continue;
+					}
+
+					if(src.substr(next, this.refOpen.length) === this.refOpen){
+						buffer+= this.refOpen;
+						pos = next + this.refOpen.length;
+						continue;
+					}
+
+					if(!inRef && src.substr(next, this.queryOpen.length) === this.queryOpen){
+						buffer+= this.queryOpen;
+						pos = next + this.queryOpen.length;
+						continue;
+					}
+
+					if(inRef && src.substr(next, this.refClose.length) === this.refClose){
+						buffer+= this.refClose;
+						pos = next + this.refClose.length;
+						continue;
+					}
+
+				}
+
+				//Reference
+				if(src.substr(pos, this.refOpen.length) === this.refOpen){
+
+					let refStart = pos;
+					let refBuffer = buffer;
+
+					buffer = "";
+					pos+= this.refOpen.length;
+
+					let refParts = parseParts(true);
+
+					//Unclosed reference - keep as literal text
+					if(src.substr(pos, this.refClose.length) !== this.refClose){
+						buffer = refBuffer + src.substring(refStart, pos);
+						continue;
+					}
+
+					pos+= this.refClose.length;
+
+					buffer = refBuffer;
+					flush();
+
+					parts.push({
+						type: REF_PART_TYPE.REFERENCE,
+						value: src.substring(refStart, pos),
+						parts: refParts,
+						start: refStart,
+						end: pos
+					});
+
+					continue;
+
+				}
+
+				//Inventory query
+				if(!inRef && src.substr(pos, this.queryOpen.length) === this.queryOpen){
+
+					let queryEnd = src.indexOf(this.queryClose, pos + this.queryOpen.length);
+
+					//Unclosed query - keep as literal text
+					if(queryEnd < 0){
+						buffer+= src.substr(pos);
+						pos = src.length;
+						continue;
+					}
+
+					flush();
+
+					parts.push({
+						type: REF_PART_TYPE.QUERY,
+						value: src.substring(pos, queryEnd + this.queryClose.length),
+						parts: [{
+							type: REF_PART_TYPE.STRING,
+							value: src.substring(pos + this.queryOpen.length, queryEnd).trim(),
+							parts: null
+						}],
+						start: pos,
+						end: queryEnd + this.queryClose.length
+					});
+
+					pos = queryEnd + this.queryClose.length;
+					continue;
+
+				}
+
+				if(inRef && src.substr(pos, this.refClose.length) === this.refClose)
+					break;
+
+				buffer+= src.substr(pos, 1);
+				pos++;
+
+			}
+
+			flush();
+
+			return parts;
+
+		};
+
+		return parseParts(false);
+
+	}
+
+	/**
+	 * Returns if parsed parts contains any reference
+	 *
+	 * @param parts Parsed parts
+	 */
+	public hasReferences(parts: Array<IRefPart>){
+
+		for(let i = 0; i < parts.length; i++)
+			if(parts[i].type !== REF_PART_TYPE.STRING)
+				return true;
+
+		return false;
+
+	}
+
+}
\ No newline at end of file
@@ -16,7 +16,8 @@ import {Facility} from 'meta2-logger';
 
 import {IResolvedClass, IDependencyClass, IResolvedParam, IResolvedSource, MERGE_TYPE} from './Resolver';
 import {Inventory, IInventoryIndex, IInventoryClass, IInventoryDocument} from './Inventory';
-import {TOKEN_TYPE} from './YamlTokenizer';
+import {IToken, TOKEN_TYPE} from './YamlTokenizer';
+import {IRefPart, ReferenceParser, REF_PART_TYPE} from './ReferenceParser';
 import {merge, IClassName, CLASS_TYPE} from './Util';
 
 /**
@@ -57,6 +58,7 @@ interface IClassLink {
 	link: string;
 	dependencies: Array<IClassLink>;
 	flags: { [K: string]: string };
+	mapping: string;
 }
 
 /**
@@ -70,6 +72,7 @@ interface IClassPropSource {
 	mergeType: string;
 	value: any;
 	comment: string;
+	anchor: string;
 }
 
 /**
@@ -80,6 +83,25 @@ interface IClassPropRef {
 	link: string;
 }
 
+/**
+ * Class property inventory query interface
+ */
+interface IClassPropQuery {
+	query: string;
+	nodes: Array<IClassPropRef>;
+}
+
+/**
+ * Class property annotations interface
+ */
+interface IClassPropAnnotations {
+	type: string;
+	required: boolean;
+	default: string;
+	examples: Array<string>;
+	see: Array<IClassPropRef>;
+}
+
 /**
  * Class property interface
  */
@@ -91,6 +113,10 @@ interface IClassProp {
 	ownProp: boolean;
 	value: any;
 	ref: Array<IClassPropRef>;
+	queries: Array<IClassPropQuery>;
+	constant: boolean;
+	violations: Array<IClassPropSource>;
+	annotations: IClassPropAnnotations;
 	comment: Array<string>;
 	fulltext: string;
 }
@@ -103,6 +129,7 @@ interface IClassAppSource {
 	classLink: string;
 	sourceLink: string;
 	comment: string;
+	removal: boolean;
 }
 
 /**
@@ -113,6 +140,8 @@ interface IClassApp {
 	sources: Array<IClassAppSource>;
 	comment: Array<string>;
 	ownProp: boolean;
+	removed: boolean;
+	removedBy: IClassAppSource;
 }
 
 /**
@@ -120,10 +149,23 @@ interface IClassApp {
  */
 interface IClass {
 	className: string;
+	comment: string;
+	environment: string;
 	dependencies: Array<IClassLink>;
 	dependents: Array<IClassLink>;
+	optionalClasses: Array<string>;
 	applications: Array<IClassApp>;
 	props: IClassProp;
+	exports: IClassProp;
+}
+
+/**
+ * Class reference error interface
+ */
+interface IClassRefError {
+	message: string;
+	link: string;
+	chain: Array<IClassPropRef>;
 }
 
 /**
@@ -133,6 +175,8 @@ interface IClassSection extends ISection {
 	class: IClass;
 	sourceLink: string;
 	errors: Array<string|Error>;
+	refErrors: Array<IClassRefError>;
+	constantViolations: Array<IClassRefError>;
 }
 
 /**
@@ -142,14 +186,27 @@ interface ISourceSection extends ISection {
 	contents: string;
 }
 
+/**
+ * Source link interface
+ */
+interface ISourceLink {
+	start: number;
+	end: number;
+	link: string;
+	title: string;
+	className: string;
+}
+
 /**
  * Class list section
  */
 interface IClassListSection extends ISection {
+	environment?: string;
 	classes: Array<{
 		label: string;
 		link: string;
-		flags: { [K: string]: string }
+		flags: { [K: string]: string };
+		environment: string;
 	}>;
 }
 
@@ -250,9 +307,18 @@ export class Renderer {
 
 	protected tplCache: { [K: string]: any } = {};
 
+	/** Pages written by last render */
+	protected renderedPages: Array<string> = [];
+
+	/** Declared params of last prepared class */
+	protected declaredParams: { class: IResolvedClass, params: IResolvedParam, exports: IResolvedParam } = null;
+
 	/** Markdown renderer */
 	protected markdown: markdownIt.MarkdownIt;
 
+	/** Reference parser instance */
+	protected refParser: ReferenceParser;
+
 	/**
 	 * Renderer constructor
 	 *
@@ -284,7 +350,10 @@ export class Renderer {
 		this.inventory = inventory;
 		this.logger = logger;
 
+		this.refParser = new ReferenceParser();
+
 		this.markdown = new markdownIt({
+			html: false,
 			highlight: (str, lang) => {
 				if (lang && hljs.getLanguage(lang)) {
 					try {
@@ -413,6 +482,247 @@ export class Renderer {
 
 	}
 
+	/**
+	 * Generates source page anchor of token lines
+	 *
+	 * @param token Token
+	 */
+	protected getLinesAnchor(token: IToken){
+
+		if(token.endLine !== null && token.endLine > token.line)
+			return "#lines:" + (token.line + 1) + "-" + (token.endLine + 1);
+		else
+			return "#line:" + (token.line + 1);
+
+	}
+
+	/**
+	 * Returns param on path or null if does not exist
+	 *
+	 * @param param Root parameter
+	 * @param path Parameter path
+	 */
+	protected getParam(param: IResolvedParam, path: string) : IResolvedParam {
+
+		let keys = path.split(":");
+
+		for(let i = 0; i < keys.length; i++){
+
+			if(!param || ( param.type !== TOKEN_TYPE.MAP && param.type !== TOKEN_TYPE.SEQUENCE ) || !param.value || !param.value.hasOwnProperty(keys[i]))
+				return null;
+
+			param = param.value[keys[i]];
+
+		}
+
+		return param;
+
+	}
+
+	/**
+	 * Returns params and exports of class with deferred merges applied
+	 *
+	 * Result of last class is kept as all sections of page use the same class.
+	 *
+	 * @param rClass Resolved class
+	 */
+	protected getDeclaredParams(rClass: IResolvedClass){
+
+		if(!this.declaredParams || this.declaredParams.class !== rClass)
+			this.declaredParams = {
+				class: rClass,
+				params: ( rClass.params ? this.inventory.getDeclaredParam(rClass.params) : null ),
+				exports: ( rClass.exports ? this.inventory.getDeclaredParam(rClass.exports) : null )
+			};
+
+		return this.declaredParams;
+
+	}
+
+	/**
+	 * Returns effective value of param as string
+	 *
+	 * @param param Parameter
+	 */
+	protected formatParamValue(param: IResolvedParam){
+
+		let toValue = (_param: IResolvedParam) => {
+
+			if(_param.type === TOKEN_TYPE.MAP){
+
+				let value = {};
+
+				for(let i in _param.value)
+					value[i] = toValue(_param.value[i]);
+
+				return value;
+
+			} else if(_param.type === TOKEN_TYPE.SEQUENCE){
+
+				return _param.value.map(toValue);
+
+			} else {
+
+				return _param.value;
+
+			}
+
+		};
+
+		if(param.type === TOKEN_TYPE.VALUE)
+			return String(param.value);
+		else
+			return JSON.stringify(toValue(param), null, 2);
+
+	}
+
+	/**
+	 * Escapes HTML special characters
+	 *
+	 * @param str String
+	 */
+	protected escapeHtml(str: string){
+
+		return str.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+	}
+
+	/**
+	 * Links known class names and references in html text
+	 *
+	 * References are linked only if class is specified and contains the param.
+	 * Contents of existing links are left untouched.
+	 *
+	 * @param html HTML
+	 * @param iClass Class to link references to
+	 * @param classLink Link to class page, empty for current page
+	 */
+	protected linkify(html: string, iClass: IInventoryClass = null, classLink: string = ""){
+
+		let parts = html.split(/(<[^>]*>)/);
+		let inLink = 0;
+		let params = ( iClass && iClass.class ? this.getDeclaredParams(iClass.class).params : null );
+
+		for(let i = 0; i < parts.length; i++){
+
+			//Tags
+			if(i % 2 === 1){
+
+				if(/^<a[\s>]/i.test(parts[i]))
+					inLink++;
+				else if(/^<\/a>/i.test(parts[i]))
+					inLink = Math.max(inLink - 1, 0);
+
+				continue;
+
+			}
+
+			if(inLink > 0 || parts[i] === "") continue;
+
+			let text = parts[i];
+			let refs = this.refParser.parse(text);
+			let refPaths = this.getRefPaths(refs);
+			let pos = 0;
+			let k = 0;
+
+			parts[i] = "";
+
+			for(let j = 0; j < refs.length; j++){
+
+				if(refs[j].type === REF_PART_TYPE.STRING) continue;
+
+				//Class names are linked only outside of references
+				parts[i]+= this.linkifyClassNames(text.substring(pos, refs[j].start));
+				pos = refs[j].start;
+
+				for(; k < refPaths.length && refPaths[k].end <= refs[j].end; k++){
+
+					let _raw = text.substring(refPaths[k].start, refPaths[k].end);
+
+					parts[i]+= text.substring(pos, refPaths[k].start);
+					parts[i]+= ( params && this.getParam(params, refPaths[k].path) ? '<a class="ref-link" href="' + classLink + '#param:' + refPaths[k].path + '">' + _raw + '</a>' : _raw );
+					pos = refPaths[k].end;
+
+				}
+
+				parts[i]+= text.substring(pos, refs[j].end);
+				pos = refs[j].end;
+
+			}
+
+			parts[i]+= this.linkifyClassNames(text.substring(pos));
+
+		}
+
+		return parts.join("");
+
+	}
+
+	/**
+	 * Returns parameter paths of references in parsed parts
+	 *
+	 * References containing nested references are skipped but the nested
+	 * ones are returned. Positions are taken from source of parsed parts.
+	 *
+	 * @param parts Parsed parts
+	 * @param refPaths Array to add paths to
+	 */
+	protected getRefPaths(parts: Array<IRefPart>, refPaths: Array<{ start: number; end: number; path: string; }> = []){
+
+		for(let i = 0; i < parts.length; i++){
+
+			if(parts[i].type !== REF_PART_TYPE.REFERENCE) continue;
+
+			if(this.refParser.hasReferences(parts[i].parts)){
+
+				this.getRefPaths(parts[i].parts, refPaths);
+				continue;
+
+			}
+
+			let path = parts[i].parts.map((part) => part.value).join("");
+
+			if(!/\s/.test(path))
+				refPaths.push({ start: parts[i].start, end: parts[i].end, path: path });
+
+		}
+
+		return refPaths;
+
+	}
+
+	/**
+	 * Links known class names in text
+	 *
+	 * @param text Text without tags and references
+	 */
+	protected linkifyClassNames(text: string){
+
+		return text.replace(/(^|[^\w.\-\/])([A-Za-z0-9_\-]+(?:\.[A-Za-z0-9_\-]+)+)(?![\w\-]|\.\w)/g, (match, prefix, className) => {
+
+			let _ref = this.inventory.getClassRef(className);
+
+			if(!_ref)
+				return match;
+
+			return prefix + '<a class="class-link" href="' + this.getClassLink(_ref.name) + '">' + className + '</a>';
+
+		});
+
+	}
+
+	/**
+	 * Renders comment as markdown
+	 *
+	 * @param comment Comment text
+	 * @param iClass Class to link references to
+	 */
+	protected renderComment(comment: string, iClass: IInventoryClass = null){
+
+		return this.linkify(this.markdown.render(comment), iClass);
+
+	}
+
 	/**
 	 * Generates link to directory index
 	 *
@@ -424,13 +734,51 @@ export class Renderer {
 
 	}
 
+	/**
+	 * Returns if class belongs to environment
+	 *
+	 * Classes, unresolved nodes and null environment always matches.
+	 *
+	 * @param iClass Inventory class
+	 * @param environment Environment name
+	 */
+	protected matchEnvironment(iClass: IInventoryClass, environment: string){
+
+		if(environment === null || !iClass.class || iClass.class.type !== CLASS_TYPE.NODE)
+			return true;
+
+		return iClass.class.environment === environment;
+
+	}
+
+	/**
+	 * Returns if index contains any class of environment
+	 *
+	 * @param index Inventory index
+	 * @param environment Environment name
+	 */
+	protected hasEnvironment(index: IInventoryIndex, environment: string){
+
+		for(let i in index.classes)
+			if(this.matchEnvironment(index.classes[i], environment))
+				return true;
+
+		for(let i in index.dirs)
+			if(this.hasEnvironment(index.dirs[i], environment))
+				return true;
+
+		return false;
+
+	}
+
 	/**
 	 * Prepares navigation tree for template
 	 *
 	 * @param index Inventory index
 	 * @param path Relative path
+	 * @param environment Environment to filter nodes by
 	 */
-	protected prepareTree(index: IInventoryIndex, path: string = '') : INavItem {
+	protected prepareTree(index: IInventoryIndex, path: string = '', environment: string = null) : INavItem {
 
 		//Create nav item
 		let item : INavItem = {
@@ -448,7 +796,7 @@ export class Renderer {
 
 		//Add classes
 		for(let i in index.classes)
-			if(i !== 'init')
+			if(i !== 'init' && this.matchEnvironment(index.classes[i], environment))
 				item.items.push({
 					type: 'class',
 					label: index.classes[i].name.name,
@@ -472,7 +820,8 @@ export class Renderer {
 				});
 
 		for(let i in index.dirs)
-			item.items.push( this.prepareTree(index.dirs[i], path + "/" + index.dirs[i].name) );
+			if(this.hasEnvironment(index.dirs[i], environment))
+				item.items.push( this.prepareTree(index.dirs[i], path + "/" + index.dirs[i].name, environment) );
 
 		//Sort
 		item.items.sort((a: INavItem, b: INavItem) => {
@@ -489,8 +838,9 @@ export class Renderer {
 	 *
 	 * @param doc Inventory document
 	 * @param path Current path
+	 * @param iClass Class rendered on the same page to link references to
 	 */
-	protected prepareDocument(doc: IInventoryDocument, path: string) : ITextSection {
+	protected prepareDocument(doc: IInventoryDocument, path: string, iClass: IInventoryClass = null) : ITextSection {
 
 		let section = {
 			title: doc.name,
@@ -500,7 +850,7 @@ export class Renderer {
 			errors: ( doc.error ? [ doc.error ] : [] )
 		};
 
-		section.contents = this.markdown.render(String(doc.contents));
+		section.contents = this.linkify(this.markdown.render(String(doc.contents)), iClass);
 
 		return section;
 
@@ -520,19 +870,60 @@ export class Renderer {
 			class: null,
 			type: 'class',
 			sourceLink: this.getClassSourceLink(iClass.name),
-			errors: iClass.error ? [ iClass.error ] : []
+			errors: iClass.error ? [ iClass.error ] : [],
+			refErrors: [],
+			constantViolations: []
 		};
 
 		//Skip if class was not resolved
 		if(!iClass.class) return section;
 
+		//Add reference errors
+		let paramLink = (paramPath: string) => {
+
+			return "#" + ( paramPath.substr(0, 7) === "exports" ? "" : "param:" ) + paramPath;
+
+		};
+
+		for(let i = 0; i < iClass.class.refErrors.length; i++){
+
+			let _refError = iClass.class.refErrors[i];
+
+			let refError: IClassRefError = {
+				message: _refError.message,
+				link: paramLink(_refError.path),
+				chain: []
+			};
+
+			for(let j = 0; j < _refError.chain.length; j++)
+				refError.chain.push({
+					name: _refError.chain[j],
+					link: paramLink(_refError.chain[j])
+				});
+
+			section.refErrors.push(refError);
+
+		}
+
+		//Add constant violations
+		for(let i = 0; i < iClass.class.constantViolations.length; i++)
+			section.constantViolations.push({
+				message: iClass.class.constantViolations[i].message,
+				link: paramLink(iClass.class.constantViolations[i].path),
+				chain: []
+			});
+
 		//Create class
 		let _class: IClass = {
 			className: iClass.name.fullName,
+			comment: ( iClass.class.comment.length > 0 ? this.renderComment(iClass.class.comment.join("\n"), iClass) : null ),
+			environment: iClass.class.environment,
 			dependencies: [],
 			dependents: [],
+			optionalClasses: iClass.class.optionalClasses.slice(),
 			applications: [],
-			props: null
+			props: null,
+			exports: null
 		};
 
 		//Add dependencies
@@ -544,7 +935,8 @@ export class Renderer {
 				className: dClass.name,
 				link: ( _ref ? this.getClassLink(_ref.name) : null ),
 				dependencies: [],
-				flags: ( dClass.error ? { error: true } : {} )
+				flags: ( dClass.error ? { error: true } : {} ),
+				mapping: dClass.mapping || null
 			};
 
 			for(let i = 0; i < dClass.classes.length; i++)
@@ -557,21 +949,25 @@ export class Renderer {
 		for(let i = 0; i < iClass.class.classes.length; i++)
 			_class.dependencies.push( createClassLink(iClass.class.classes[i]) );
 
-		//Add dependants
-		for(let i in iClass.class.dependents){
+		//Add dependants, sorted as they are added in order of resolution
+		let dependents = Object.keys(iClass.class.dependents).sort();
 
+		for(let i = 0; i < dependents.length; i++){
+
+			let dependent = iClass.class.dependents[dependents[i]];
 			let _ref;
 
-			if(iClass.class.dependents[i].type == CLASS_TYPE.CLASS)
-				_ref = this.inventory.getClassRef(iClass.class.dependents[i].name);
+			if(dependent.type == CLASS_TYPE.CLASS)
+				_ref = this.inventory.getClassRef(dependent.name);
 			else
-				_ref = this.inventory.getNodeRef(iClass.class.dependents[i].name);
+				_ref = this.inventory.getNodeRef(dependent.name);
 
 			_class.dependents.push({
-				className: iClass.class.dependents[i].name,
+				className: dependent.name,
 				link: ( _ref ? this.getClassLink(_ref.name) : null ),
 				dependencies: [],
-				flags: {}
+				flags: {},
+				mapping: null
 			});
 
 		}
@@ -585,7 +981,9 @@ export class Renderer {
 				name: i,
 				sources: [],
 				comment: [],
-				ownProp: false
+				ownProp: false,
+				removed: _app.removed,
+				removedBy: null
 			};
 
 			for(let j = 0; j < _app.sources.length; j++){
@@ -597,15 +995,21 @@ export class Renderer {
 				else
 					_ref = this.inventory.getNodeRef(_app.sources[j].className);
 
-				app.sources.push({
+				let source: IClassAppSource = {
 					className: _app.sources[j].className,
 					classLink: ( _ref ? this.getClassLink(_ref.name) : null ),
 					sourceLink: ( _ref ? this.getClassSourceLink(_ref.name) : null ),
-					comment: _app.sources[j].comment.join("\n")
-				});
+					comment: _app.sources[j].comment.join("\n"),
+					removal: _app.sources[j].removal
+				};
+
+				app.sources.push(source);
+
+				if(app.removed && source.removal)
+					app.removedBy = source;
 
 				if(_app.sources[j].comment.length > 0)
-					app.comment.unshift(_app.sources[j].comment.join("\n"));
+					app.comment.unshift(this.renderComment(_app.sources[j].comment.join("\n"), iClass));
 
 				if(j === _app.sources.length - 1){
 
@@ -639,6 +1043,7 @@ export class Renderer {
 
 				case MERGE_TYPE.MERGED: return 'merged';
 				case MERGE_TYPE.REPLACED: return 'replaced';
+				case MERGE_TYPE.OVERRIDDEN: return 'overridden';
 				case MERGE_TYPE.ORIGIN: return 'origin';
 
 			}
@@ -655,40 +1060,56 @@ export class Renderer {
 				ownProp: false,
 				value: null,
 				ref: null,
+				queries: null,
+				constant: param.constant || false,
+				violations: null,
+				annotations: null,
 				comment: [],
 				sources: [],
 				fulltext: null
 			};
 
-			let fulltext = [ prop.id.substr(6).replace(/\:/g, '.') ];
+			let fulltext = [ prop.id.replace(/^(param|exports)\:?/, '').replace(/\:/g, '.') ];
 
 			if(prop.name){
 				fulltext.push( prop.name);
 				fulltext.push( prop.name.replace(/_/g, ' ') );
 			}
 
-			//Add sources
-			for(let i = 0; i < param.sources.length; i++){
-
-				let _source = param.sources[i];
-
-				let _sourceRef;
+			let getSourceRef = (_source: IResolvedSource) => {
 
 				if(_source.classType === CLASS_TYPE.CLASS)
-					_sourceRef = this.inventory.getClassRef(_source.className);
+					return this.inventory.getClassRef(_source.className);
 				else
-					_sourceRef = this.inventory.getNodeRef(_source.className);
+					return this.inventory.getNodeRef(_source.className);
+
+			};
+
+			let prepareSource = (_source: IResolvedSource) : IClassPropSource => {
+
+				let _sourceRef = getSourceRef(_source);
 
-				let source: IClassPropSource = {
+				return {
 					className: _source.className,
 					classLink: ( _sourceRef ? this.getClassLink(_sourceRef.name) + "#" + prop.id : null ),
-					sourceLink: ( _sourceRef ? this.getClassSourceLink( _sourceRef.name ) + "#line:" + (_source.token.line + 1) : null ),
+					sourceLink: ( _sourceRef ? this.getClassSourceLink( _sourceRef.name ) + this.getLinesAnchor(_source.token) : null ),
 					mergeType: merge2str(_source.mergeType),
 					type: type2str(_source.type),
 					value: _source.value,
-					comment: _source.comment.join("\n")
+					comment: _source.comment.join("\n"),
+					anchor: ( _source.token && _source.token.anchor ? _source.token.anchor.name : null )
 				};
 
+			};
+
+			//Add sources
+			for(let i = 0; i < param.sources.length; i++){
+
+				let _source = param.sources[i];
+				let _sourceRef = getSourceRef(_source);
+
+				let source = prepareSource(_source);
+
 				prop.sources.unshift(source);
 
 				if(prop.comment.indexOf(source.comment) < 0)
@@ -709,6 +1130,8 @@ export class Renderer {
 
 			}
 
+			prop.comment = prop.comment.map((comment) => comment !== '' ? this.renderComment(comment, iClass) : comment);
+
 			//Set value
 			if(param.value !== null){
 
@@ -726,13 +1149,6 @@ export class Renderer {
 					for(let i = 0; i < param.value.length; i++)
 						prop.value[i] = prepareProp(String(i), param.value[i], prop.id);
 
-				} else if(String(param.value).substr(0, 7) == "#!ref!#"){
-
-					prop.type = 'ref';
-					prop.value = "#param:" + String(param.value).substr(7);
-
-					fulltext.push( String(param.value).substr(7) );
-
 				} else {
 
 					prop.value = param.value;
@@ -761,14 +1177,83 @@ export class Renderer {
 
 			}
 
+			//Set annotations
+			if(param.annotations){
+
+				prop.annotations = {
+					type: param.annotations.type,
+					required: param.annotations.required,
+					default: param.annotations.default,
+					examples: param.annotations.examples,
+					see: []
+				};
+
+				for(let i = 0; i < param.annotations.see.length; i++){
+
+					let _see = param.annotations.see[i];
+					let _classRef = this.inventory.getClassRef(_see);
+					let _refMatch = /^\$\{(.+)\}$/.exec(_see);
+
+					prop.annotations.see.push({
+						name: _see,
+						link: ( _classRef ? this.getClassLink(_classRef.name) : ( _refMatch ? "#param:" + _refMatch[1] : null ) )
+					});
+
+				}
+
+				if(prop.annotations.type)
+					fulltext.push(prop.annotations.type);
+
+			}
+
+			//Set refused overrides of constant
+			if(param.violations)
+				prop.violations = param.violations.map(prepareSource);
+
+			//Set query results
+			if(param.queries){
+
+				prop.queries = [];
+
+				for(let i = 0; i < param.queries.length; i++){
+
+					let query: IClassPropQuery = {
+						query: param.queries[i].query,
+						nodes: []
+					};
+
+					for(let j = 0; j < param.queries[i].nodes.length; j++){
+
+						let _nodeRef = this.inventory.getNodeRef(param.queries[i].nodes[j]);
+
+						query.nodes.push({
+							name: param.queries[i].nodes[j],
+							link: ( _nodeRef ? this.getClassLink(_nodeRef.name) : null )
+						});
+
+					}
+
+					prop.queries.push(query);
+
+					fulltext.push(query.query);
+
+				}
+
+			}
+
 			prop.fulltext = fulltext.join(" ");
 
 			return prop;
 
 		}
 
-		if(iClass.class.params)
-			_class.props = prepareProp(null, iClass.class.params, null);
+		let declared = this.getDeclaredParams(iClass.class);
+
+		if(declared.params)
+			_class.props = prepareProp(null, declared.params, null);
+
+		if(declared.exports)
+			_class.exports = prepareProp("exports", declared.exports, null);
 
 		section.class = _class;
 
@@ -781,22 +1266,27 @@ export class Renderer {
 	 *
 	 * @param index Inventory index
 	 * @param path Current path
+	 * @param environment Environment to filter nodes by
 	 */
-	protected prepareClassList(index: IInventoryIndex, path: string): IClassListSection {
+	protected prepareClassList(index: IInventoryIndex, path: string, environment: string = null): IClassListSection {
 
 		let section: IClassListSection = {
 			type: 'class-list',
+			environment: environment,
 			classes: []
 		};
 
+		let showEnvironment = ( environment === null && this.inventory.getEnvironments().length > 1 );
+
 		for(let i in index.classes){
 
-			if(i == 'init') continue;
+			if(i == 'init' || !this.matchEnvironment(index.classes[i], environment)) continue;
 
 			section.classes.push({
 				label: index.classes[i].name.fullName,
 				link: this.getClassLink(index.classes[i].name),
-				flags: ( index.classes[i].error ? { error: true } : {} )
+				flags: ( index.classes[i].error ? { error: true } : {} ),
+				environment: ( showEnvironment && index.classes[i].class ? index.classes[i].class.environment : null )
 			});
 
 		}
@@ -805,10 +1295,13 @@ export class Renderer {
 
 			let _index = index.dirs[i];
 
+			if(!this.hasEnvironment(_index, environment)) continue;
+
 			section.classes.push({
 				label: _index.classes['init'] ? _index.classes['init'].name.fullName : _index.name,
 				link: this.getDirectoryLink(path + "/" + _index.name),
-				flags: ( _index.classes['init'] && _index.classes['init'].error ? { error: true } : {} )
+				flags: ( _index.classes['init'] && _index.classes['init'].error ? { error: true } : {} ),
+				environment: null
 			});
 
 		}
@@ -817,12 +1310,194 @@ export class Renderer {
 
 	}
 
+	/**
+	 * Returns links of class entries, parameter keys and references in class source
+	 *
+	 * Keys links to property on class page, references links to referenced
+	 * property and holds its value as title. Values of classes are not
+	 * interpolated so they are labeled as declared.
+	 *
+	 * @param iClass Inventory class
+	 * @param code Source code
+	 */
+	protected getSourceLinks(iClass: IInventoryClass, code: string){
+
+		let links: Array<ISourceLink> = [];
+		let used: { [K: number]: boolean } = {};
+
+		if(!iClass.class) return links;
+
+		let classLink = this.getClassLink(iClass.name);
+		let declared = this.getDeclaredParams(iClass.class);
+
+		let addLink = (link: ISourceLink) => {
+
+			if(used[link.start]) return;
+
+			used[link.start] = true;
+			links.push(link);
+
+		};
+
+		//Add class entries
+		for(let i = 0; i < iClass.class.classEntries.length; i++){
+
+			let _entry = iClass.class.classEntries[i];
+			let _ref = this.inventory.getClassRef(_entry.name);
+
+			if(!_ref || _entry.token.anchor) continue;
+
+			addLink({
+				start: _entry.token.pointer,
+				end: _entry.token.endPointer,
+				link: this.getClassLink(_ref.name),
+				title: _entry.name,
+				className: "class-link"
+			});
+
+		}
+
+		//Add keys and references of own params
+		let addParam = (param: IResolvedParam, id: string) => {
+
+			for(let i = 0; i < param.sources.length; i++){
+
+				let _source = param.sources[i];
+				let _token = _source.token;
+
+				if(_source.className !== iClass.class.name || _source.classType !== iClass.class.type || !_token)
+					continue;
+
+				//Keys of aliased maps are not set, aliased values are located at anchor
+
+				if(_token.keyPointer !== undefined)
+					addLink({
+						start: _token.keyPointer,
+						end: _token.keyEndPointer,
+						link: classLink + "#" + id,
+						title: null,
+						className: "param-link"
+					});
+
+				if(_token.anchor || _token.type !== TOKEN_TYPE.VALUE || typeof _token.value !== "string")
+					continue;
+
+				let refPaths = this.getRefPaths(this.refParser.parse(code.substring(_token.pointer, _token.endPointer)));
+
+				for(let j = 0; j < refPaths.length; j++){
+
+					let _target = this.getParam(declared.params, refPaths[j].path);
+
+					if(!_target) continue;
+
+					addLink({
+						start: _token.pointer + refPaths[j].start,
+						end: _token.pointer + refPaths[j].end,
+						link: classLink + "#param:" + refPaths[j].path,
+						title: ( iClass.class.type === CLASS_TYPE.NODE ? "" : "Declared value: " ) + this.formatParamValue(_target),
+						className: "ref-link"
+					});
+
+				}
+
+			}
+
+			if(param.type === TOKEN_TYPE.MAP || param.type === TOKEN_TYPE.SEQUENCE)
+				for(let i in param.value)
+					addParam(param.value[i], id + ":" + i);
+
+		};
+
+		addParam(declared.params, "param");
+		addParam(declared.exports, "exports");
+
+		links.sort((a, b) => a.start - b.start);
+
+		return links;
+
+	}
+
+	/**
+	 * Wraps ranges of source code in highlighted HTML into links
+	 *
+	 * Positions are counted in source code, links are split on HTML tags
+	 * to keep them well nested.
+	 *
+	 * @param html Highlighted HTML
+	 * @param links Sorted source links
+	 */
+	protected addSourceLinks(html: string, links: Array<ISourceLink>){
+
+		let out = "";
+		let pos = 0;
+		let next = 0;
+		let active: ISourceLink = null;
+		let opened = false;
+
+		for(let i = 0; i < html.length; i++){
+
+			//Tag
+			if(html.charAt(i) === "<"){
+
+				let tagEnd = html.indexOf(">", i);
+
+				if(opened){
+					out+= "</a>";
+					opened = false;
+				}
+
+				out+= html.substring(i, tagEnd + 1);
+				i = tagEnd;
+				continue;
+
+			}
+
+			//Character or entity
+			let length = ( html.charAt(i) === "&" ? html.indexOf(";", i) - i + 1 : 1 );
+
+			if(active && pos >= active.end){
+
+				if(opened) out+= "</a>";
+
+				active = null;
+				opened = false;
+
+			}
+
+			while(next < links.length && links[next].start < pos)
+				next++;
+
+			if(!active && next < links.length && links[next].start === pos)
+				active = links[next++];
+
+			if(active && !opened){
+
+				out+= '<a class="' + active.className + '" href="' + this.escapeHtml(active.link) + '"' + ( active.title !== null ? ' title="' + this.escapeHtml(active.title) + '"' : '' ) + '>';
+				opened = true;
+
+			}
+
+			out+= html.substr(i, length);
+			i+= length - 1;
+			pos++;
+
+		}
+
+		if(opened)
+			out+= "</a>";
+
+		return out;
+
+	}
+
 	/**
 	 * Prepares source code section
 	 *
 	 * @param filename Filename
+	 * @param lang Code language
+	 * @param iClass Class to link references to
 	 */
-	protected prepareSource(filename: string, lang: string){
+	protected prepareSource(filename: string, lang: string, iClass: IInventoryClass = null){
 
 		let section: ISourceSection = {
 			type: 'source',
@@ -835,6 +1510,13 @@ export class Renderer {
 		
 		let code = fs.readFileSync(filename, { encoding: 'utf-8' });
 		let html = hljs.highlight(lang, code).value;
+
+		if(lang === 'yaml' && iClass)
+			html = this.addSourceLinks(html, this.getSourceLinks(iClass, code));
+
+		if(lang === 'yaml')
+			html = this.linkify(html, iClass, iClass ? this.getClassLink(iClass.name) : "");
+
 		let lines = html.split("\n");
 
 		section.contents = '';
@@ -878,10 +1560,20 @@ export class Renderer {
 			this.renderSource(index.docs['README'].filename, "/README", _crumbs, 'markdown');
 		}
 
-		//Add nodes
-		if(index.dirs['nodes'])
+		//Add nodes, grouped by environments if there are more of them
+		let environments = this.inventory.getEnvironments();
+
+		if(index.dirs['nodes'] && environments.length > 1){
+
+			for(let i = 0; i < environments.length; i++)
+				page.sections['nodes:' + environments[i]] = this.prepareClassList(index.dirs['nodes'], this.nodesDir, environments[i]);
+
+		} else if(index.dirs['nodes']) {
+
 			page.sections['nodes'] = this.prepareClassList(index.dirs['nodes'], this.nodesDir);
 
+		}
+
 		//Add classes
 		if(index.dirs['classes'])
 			page.sections['classes'] = this.prepareClassList(index.dirs['classes'], this.classesDir);
@@ -900,6 +1592,7 @@ export class Renderer {
 			html = this.filterOutput(html, '');
 
 			fs.writeFileSync(outputFilename, html, { encoding: 'utf-8' });
+			this.renderedPages.push(outputFilename);
 
 		} catch(err) {
 
@@ -916,8 +1609,9 @@ export class Renderer {
 	 * @param path Index path
 	 * @param crumbs Previous index crumbs
 	 * @param lang Code language
+	 * @param iClass Class of source file
 	 */
-	protected renderSource(filename: string, path: string, crumbs: Array<ICrumb> = [], lang: string){
+	protected renderSource(filename: string, path: string, crumbs: Array<ICrumb> = [], lang: string, iClass: IInventoryClass = null){
 
 		//Prepare page
 		let page: IPage = {
@@ -930,7 +1624,7 @@ export class Renderer {
 		};
 
 		//Add source section
-		page.sections.push( this.prepareSource(filename, lang) );
+		page.sections.push( this.prepareSource(filename, lang, iClass) );
 
 		//Render page
 		try {
@@ -947,6 +1641,7 @@ export class Renderer {
 			html = this.filterOutput(html, path);
 
 			fs.writeFileSync(outputFilename, html, { encoding: 'utf-8' });
+			this.renderedPages.push(outputFilename);
 
 		} catch(err) {
 
@@ -1007,6 +1702,7 @@ export class Renderer {
 				html = this.filterOutput(html, path);
 
 				fs.writeFileSync(outputFilename, html, { encoding: 'utf-8' });
+				this.renderedPages.push(outputFilename);
 
 			} catch(err) {
 
@@ -1028,11 +1724,14 @@ export class Renderer {
 	 */
 	protected renderClass(rClass: IInventoryClass, path: string, crumbs: Array<ICrumb> = [], force: boolean = false){
 
+		//Dependents are not part of class fingerprint
+		let fingerprint = ( rClass.class ? rClass.class.fingerprint + ":" + Object.keys(rClass.class.dependents).sort().join(",") : null );
+
 		//Prepare page
-		if((rClass.class && this.cache[path] != rClass.class.fingerprint) || force){
+		if((rClass.class && this.cache[path] != fingerprint) || force){
 
 			if(rClass.class)
-				this.cache[path] = rClass.class.fingerprint;
+				this.cache[path] = fingerprint;
 
 			//Update crumbs
 			let _crumbs = crumbs.slice();
@@ -1053,7 +1752,7 @@ export class Renderer {
 
 			//Add content
 			page.sections.push( this.prepareClass(rClass, path) );
-			this.renderSource(rClass.filename, path, _crumbs, 'yaml');
+			this.renderSource(rClass.filename, path, _crumbs, 'yaml', rClass);
 
 			//Render page
 			try {
@@ -1070,6 +1769,7 @@ export class Renderer {
 				html = this.filterOutput(html, path);
 
 				fs.writeFileSync(outputFilename, html, { encoding: 'utf-8' });
+				this.renderedPages.push(outputFilename);
 
 			} catch(err) {
 
@@ -1096,7 +1796,7 @@ export class Renderer {
 
 		if(!fs.existsSync(outputDir)){
 			this.logger.info("Creating directory '" + outputDir + "'...");
-			fs.mkdirSync(outputDir);
+			fsExtra.mkdirpSync(outputDir);
 		}
 
 		//Update crumbs
@@ -1123,7 +1823,7 @@ export class Renderer {
 
 			//Add readme
 			if(index.docs['README']){
-				page.sections.push( this.prepareDocument(index.docs['README'], path + "/README") );
+				page.sections.push( this.prepareDocument(index.docs['README'], path + "/README", index.classes['init'] || null) );
 				this.renderSource(index.docs['README'].filename, path + "/README", _crumbs, 'markdown');
 			}
 
@@ -1134,7 +1834,7 @@ export class Renderer {
 			//Add class
 			if(index.classes['init']){
 				page.sections.push( this.prepareClass(index.classes['init'], path + "/init") );
-				this.renderSource(index.classes['init'].filename, path + "/init", _crumbs, 'yaml');
+				this.renderSource(index.classes['init'].filename, path + "/init", _crumbs, 'yaml', index.classes['init']);
 			}
 
 			//Render page
@@ -1152,6 +1852,7 @@ export class Renderer {
 				html = this.filterOutput(html, path + "/");
 
 				fs.writeFileSync(outputFilename, html, { encoding: 'utf-8' });
+				this.renderedPages.push(outputFilename);
 
 			} catch(err) {
 
@@ -1262,7 +1963,7 @@ export class Renderer {
 
 			} else {
 
-				if(this.cache[assetId] == String(stat.mtime.getTime())){
+				if(this.cache[assetId] == String(stat.mtime.getTime()) && fs.existsSync(dstFilename)){
 					this.logger.debug("Asset file '" + dstFilename + "' up to date, skiping...");
 					continue;
 				}
@@ -1291,14 +1992,14 @@ export class Renderer {
 	}
 
 	/**
-	 * Returns if template file has changed
+	 * Returns if any template file has changed, cached modification times are updated
 	 *
-	 * @param name Template name
-	 * @param updateCache If to update cached value
+	 * @param path Template directory
 	 */
 	protected hasTemplateChanged(path: string){
 
 		let files = fs.readdirSync(path);
+		let changed = false;
 
 		for(let i in files){
 
@@ -1309,19 +2010,18 @@ export class Renderer {
 
 			if(stat.isDirectory()){
 
-				let res = this.hasTemplateChanged(path + "/" + file);
-
-				if(res) return true;
+				if(this.hasTemplateChanged(filename))
+					changed = true;
 
 			} else {
 
 				if(file.substr(file.length - 4, 4) !== ".pug")
 					continue;
 
-				if(this.cache['__template__/' + path] != String(stat.mtime.getTime())){
+				if(this.cache['__template__/' + filename] != String(stat.mtime.getTime())){
 
-					this.cache['__template__/' + path] = String(stat.mtime.getTime());
-					return true;
+					this.cache['__template__/' + filename] = String(stat.mtime.getTime());
+					changed = true;
 
 				}
 
@@ -1329,7 +2029,47 @@ export class Renderer {
 
 		}
 
-		return false;
+		return changed;
+
+	}
+
+	/**
+	 * Returns pages written by last render
+	 */
+	public getRenderedPages(){
+
+		return this.renderedPages;
+
+	}
+
+	/**
+	 * Returns rendered pages, templates and assets cache to be persisted
+	 */
+	public exportCache() : { [K: string]: string } {
+
+		return this.cache;
+
+	}
+
+	/**
+	 * Restores persisted cache
+	 *
+	 * Pages which output file does not exist are rendered again.
+	 *
+	 * @param cache Persisted cache
+	 */
+	public importCache(cache: { [K: string]: string }){
+
+		this.cache = {};
+
+		for(let i in cache){
+
+			if(i.substr(0, 1) === "/" && !fs.existsSync(this.outputDir + i + ".html") && !fs.existsSync(this.outputDir + i + "/index.html"))
+				continue;
+
+			this.cache[i] = cache[i];
+
+		}
 
 	}
 
@@ -1340,6 +2080,8 @@ export class Renderer {
 	 */
 	public render(index: IInventoryIndex, treeHash: string){
 
+		this.renderedPages = [];
+
 		//Check output directory
 		if(!fs.existsSync(this.outputDir)){
 			this.logger.info("Creating output directory '" + this.outputDir + "'...");
@@ -1361,26 +2103,50 @@ export class Renderer {
 			this.logger.debug("Template changed, will rebuild all...");
 		}
 
+		//Check if navigation tree has changed
+		let treeChanged = ( this.cache['__tree__'] !== treeHash );
+
+		if(treeChanged){
+			this.cache['__tree__'] = treeHash;
+			this.logger.debug("Navigation tree changed, will rebuild all...");
+		}
+
 		//Update globals
+		let environments = this.inventory.getEnvironments();
+
 		this.globals['navTree'] = {
 			classes: this.prepareTree( index.dirs['classes'], this.classesDir ),
-			nodes: this.prepareTree( index.dirs['nodes'], this.nodesDir )
+			nodes: this.prepareTree( index.dirs['nodes'], this.nodesDir ),
+			environments: []
 		};
 
+		if(environments.length > 1)
+			for(let i = 0; i < environments.length; i++)
+				this.globals['navTree'].environments.push({
+					name: environments[i],
+					nodes: this.prepareTree( index.dirs['nodes'], this.nodesDir, environments[i] )
+				});
+
 		//Render index
-		if(this.cache[index.path] !== index.fingerprint)
+		let indexFingerprint = [ treeHash, index.contentFingerprint ].concat(environments).join(":");
+
+		if(this.cache[index.path] !== indexFingerprint || tplChanged || !fs.existsSync(this.outputDir + "/index.html")){
+
+			this.cache[index.path] = indexFingerprint;
 			this.renderIndex(index);
 
+		}
+
 		let crumbs = [{
 			label: "Overview",
 			link: "{{base}}/index.html"
 		}];
 
 		//Render nodes
-		this.renderDirectory(index.dirs['nodes'], this.nodesDir, crumbs, tplChanged);
+		this.renderDirectory(index.dirs['nodes'], this.nodesDir, crumbs, tplChanged || treeChanged);
 
 		//Render classes
-		this.renderDirectory(index.dirs['classes'], this.classesDir, crumbs, tplChanged);
+		this.renderDirectory(index.dirs['classes'], this.classesDir, crumbs, tplChanged || treeChanged);
 
 	}
 
@@ -6,15 +6,19 @@
  */
 
 import fs = require('fs');
+import path = require('path');
 import crypto = require('crypto');
 
 import {IToken, YamlTokenizer, TOKEN_TYPE} from './YamlTokenizer';
-import {clone, CLASS_TYPE, deepContains} from './Util';
+import {IRefPart, ReferenceParser, REF_PART_TYPE} from './ReferenceParser';
+import {IParamAnnotations, IParsedComment, AnnotationParser} from './AnnotationParser';
+import {merge, CLASS_TYPE, deepContains, IClassMapping} from './Util';
 
 export enum MERGE_TYPE {
 	ORIGIN,
 	MERGED,
-	REPLACED
+	REPLACED,
+	OVERRIDDEN
 }
 
 export interface IResolvedSource {
@@ -33,6 +37,19 @@ export interface IResolvedParam {
 	value: any;
 	ref: Array<string>;
 	comment: Array<Array<string>>;
+	override?: boolean;
+	constant?: boolean;
+	violations?: Array<IResolvedSource>;
+	annotations?: IParamAnnotations;
+	interpolated?: boolean;
+	merges?: Array<IResolvedParam>;
+	queries?: Array<IResolvedQuery>;
+	owner?: Object;
+}
+
+export interface IResolvedQuery {
+	query: string;
+	nodes: Array<string>;
 }
 
 export interface IDependencyClass {
@@ -40,6 +57,7 @@ export interface IDependencyClass {
 	name: string;
 	error: Error;
 	classes: Array<IDependencyClass>;
+	mapping?: string;
 }
 
 export interface IDependentClass {
@@ -50,11 +68,13 @@ export interface IDependentClass {
 
 export interface IResolvedApplication {
 	name: string;
+	removed: boolean;
 	sources: Array<{
 		className: string;
 		classType: CLASS_TYPE;
 		token: IToken;
 		comment: Array<string>;
+		removal: boolean;
 	}>;
 }
 
@@ -65,14 +85,93 @@ export interface IResolvedClass {
 	filename: string;
 	relativePath: string;
 	isInit: boolean;
+	environment: string;
 	classes: Array<IDependencyClass>;
+	classEntries: Array<IClassEntry>;
 	applications: { [K: string]: IResolvedApplication };
 	dependents: { [K: string] : IDependentClass },
 	params: IResolvedParam;
+	exports: IResolvedParam;
+	localApplications: { [K: string]: IResolvedApplication };
+	localParams: IResolvedParam;
+	localExports: IResolvedParam;
 	comment: Array<string>;
 	fingerprint: string;
 	modified: number;
 	resolvedClasses: Array<string>;
+	linearization: Array<string>;
+	optionalClasses: Array<string>;
+	refErrors: Array<IReferenceError>;
+	constantViolations: Array<IConstantViolation>;
+	annotationWarnings: Array<string>;
+}
+
+export interface IClassEntry {
+	name: string;
+	token: IToken;
+}
+
+export interface IConstantViolation {
+	path: string;
+	source: IResolvedSource;
+	message: string;
+}
+
+export enum REF_ERROR_TYPE {
+	UNRESOLVED,
+	CYCLE,
+	TYPE_MISMATCH,
+	QUERY
+}
+
+export interface IReferenceError {
+	type: REF_ERROR_TYPE;
+	path: string;
+	reference: string;
+	chain: Array<string>;
+	message: string;
+}
+
+export interface IInterpolationContext {
+	root: IResolvedParam;
+	errors: Array<IReferenceError>;
+	chain: Array<string>;
+	inventory: IExportsInventory;
+	environment: string;
+	queried: boolean;
+}
+
+export interface INodeExports {
+	name: string;
+	environment: string;
+	exports: IResolvedParam;
+	fingerprint: string;
+}
+
+export interface IExportsInventory {
+	[K: string]: INodeExports;
+}
+
+export interface IQueryTest {
+	left: string;
+	operator: string;
+	right: string;
+}
+
+export interface IInventoryQuery {
+	query: string;
+	allEnvs: boolean;
+	ignoreErrors: boolean;
+	value: string;
+	condition: Array<Array<IQueryTest>>;
+}
+
+/**
+ * Persisted resolver cache interface
+ */
+export interface IResolverCache {
+	cache: { [K: string]: IResolvedClass };
+	dependencyTree: { [K: string]: Array<string> };
 }
 
 /**
@@ -94,15 +193,36 @@ export class Resolver {
 	/** Max depth limit */
 	public depthLimit: number = 32;
 
+	/** Class mappings from reclass config */
+	public classMappings: Array<IClassMapping> = [];
+
+	/** If to ignore not found classes */
+	public ignoreClassNotFound: boolean = false;
+
+	/** Not found classes to ignore, when empty all classes are ignored */
+	public ignoreClassNotFoundRegexp: Array<RegExp> = [];
+
+	/** Environment of nodes without environment set */
+	public defaultEnvironment: string = "base";
+
 	/** Cache of resolved classes */
 	protected cache: { [K: string]: IResolvedClass } = {};
 
 	/** Inverted dependency tree - class -> dependants */
 	protected dependencyTree: { [K: string]: Array<string> } = {};
 
+	/** IDs of classes read since last flushResolved call */
+	protected resolvedIds: Array<string> = [];
+
 	/** Tokenizer instance */
 	protected tokenizer: YamlTokenizer;
 
+	/** Reference parser instance */
+	protected refParser: ReferenceParser;
+
+	/** Comment annotation parser instance */
+	protected annotationParser: AnnotationParser;
+
 	/**
 	 * Resolver constructor
 	 *
@@ -113,6 +233,8 @@ export class Resolver {
 		this.reclassRoot = reclassRoot;
 
 		this.tokenizer = new YamlTokenizer();
+		this.refParser = new ReferenceParser();
+		this.annotationParser = new AnnotationParser();
 
 	}
 
@@ -121,14 +243,38 @@ export class Resolver {
 	 *
 	 * @param target Target param
 	 * @param source Source param
+	 * @param addSources If to add source and comments of merged param
 	 */
-	protected mergeParams(target: IResolvedParam, source: IResolvedParam){
+	protected mergeParams(target: IResolvedParam, source: IResolvedParam, addSources: boolean = true){
+
+		//Refuse override of constant param
+		if(target.constant && target.sources.length > 0){
+
+			let _violations = ( source.violations || [] ).concat( source.sources.slice(-1) );
+
+			for(let i = 0; i < _violations.length; i++){
+
+				if(this.hasSource(target.sources, _violations[i]) || ( target.violations && this.hasSource(target.violations, _violations[i]) ))
+					continue;
+
+				target.violations = ( target.violations || [] ).concat( [ _violations[i] ] );
+
+			}
+
+			return;
+
+		}
+
+		//Merge annotations
+		if(source.annotations)
+			target.annotations = this.annotationParser.merge(target.annotations, source.annotations);
 
 		//Clone sources
 		let _sources: Array<IResolvedSource> = [];
-		let lastSource: IResolvedSource;
+		let lastSource: IResolvedSource = null;
+		let mergeType: MERGE_TYPE;
 
-		for(let i = 0; i < source.sources.length; i++){
+		for(let i = 0; addSources && i < source.sources.length; i++){
 
 			if(i < source.sources.length - 1){
 				
@@ -136,7 +282,7 @@ export class Resolver {
 
 			} else {
 
-				lastSource = clone(source.sources[i]);
+				lastSource = <IResolvedSource> merge(source.sources[i]);
 				_sources.push(lastSource);
 
 			}
@@ -144,61 +290,310 @@ export class Resolver {
 			//Add comments
 			if(source.comment.length > 0){
 
+				let comment = target.comment.slice();
+
 				for(let c in source.comment)
-					if(source.comment[c].length > 0 && !deepContains(target.comment, source.comment[c]))
-						target.comment.push(source.comment[c]);
+					if(source.comment[c].length > 0 && !deepContains(comment, source.comment[c]))
+						comment.push(source.comment[c]);
 
-				target.comment = target.comment.concat(source.comment);
+				target.comment = comment.concat(source.comment);
 
 			}
 
 		}
 
+		//OVERRIDE
+		if(source.override){
+
+			mergeType = MERGE_TYPE.OVERRIDDEN;
+
+			target.type = source.type;
+			target.value = this.copyValue(source.value);
+			target.merges = source.merges;
+			target.override = true;
+
+		//DEFER MERGE OF REFERENCED STRUCTURE
+		} else if(
+			source.merges ||
+			( target.merges && ( source.type !== TOKEN_TYPE.VALUE || this.isSoleReference(source) ) ) ||
+			( this.isSoleReference(target) && source.type !== TOKEN_TYPE.VALUE ) ||
+			( target.type !== TOKEN_TYPE.VALUE && this.isSoleReference(source) )
+		){
+
+			mergeType = MERGE_TYPE.MERGED;
+
+			let sourceMerges = source.merges || [];
+			let layer: IResolvedParam = this.own(source, target.owner);
+			layer.merges = null;
+
+			target.merges = ( target.merges || [] ).concat( [ layer ], sourceMerges );
+
 		//MERGE MAP
-		if(target.type === TOKEN_TYPE.MAP && source.type === TOKEN_TYPE.MAP){
+		} else if(target.type === TOKEN_TYPE.MAP && source.type === TOKEN_TYPE.MAP){
 
-			lastSource.mergeType = MERGE_TYPE.MERGED;
+			mergeType = MERGE_TYPE.MERGED;
 
 			for(let i in source.value){
 
-				if(target.value[i])
+				if(target.value[i]){
+					target.value[i] = this.own(target.value[i], target.owner);
 					this.mergeParams(target.value[i], source.value[i]);
-				else
-					target.value[i] = clone(source.value[i]);
+				} else {
+					target.value[i] = source.value[i];
+				}
 
 			}
 
 		//MERGE SEQUENCE
 		} else if(target.type === TOKEN_TYPE.SEQUENCE && source.type === TOKEN_TYPE.SEQUENCE){
 
-			lastSource.mergeType = MERGE_TYPE.MERGED;
+			mergeType = MERGE_TYPE.MERGED;
 
 			for(let i = 0; i < source.value.length; i++)
-				if( !deepContains( target.value, source.value[i], [ "sources", "comment" ] ) )
-					target.value.push( clone(source.value[i]) );
+				if( !deepContains( target.value, source.value[i], [ "sources", "comment", "annotations" ] ) )
+					target.value.push( source.value[i] );
 
 		//REPLACE
 		} else {
 
-			lastSource.mergeType = MERGE_TYPE.REPLACED;
+			mergeType = MERGE_TYPE.REPLACED;
 
-			target.value = clone(source.value);
+			target.type = source.type;
+			target.value = this.copyValue(source.value);
+			target.merges = null;
 
 		}
 
+		if(lastSource)
+			lastSource.mergeType = mergeType;
+
+		if(source.constant)
+			target.constant = true;
+
 		//Add sources
 		target.sources = target.sources.concat(_sources);
 
 	}
 
+	/**
+	 * Returns param owned by owner
+	 *
+	 * Param trees shares unchanged params, so param of other owner is shallow
+	 * copied before write. Owner is not enumerable to be skipped by comparison.
+	 *
+	 * @param param Parameter
+	 * @param owner Owner of tree the param is written to
+	 */
+	protected own(param: IResolvedParam, owner: Object) : IResolvedParam {
+
+		if(owner && param.owner === owner)
+			return param;
+
+		let copy = <IResolvedParam> merge(param);
+
+		copy.value = this.copyValue(param.value);
+
+		return this.setOwner(copy, owner);
+
+	}
+
+	/**
+	 * Sets owner of param
+	 *
+	 * @param param Parameter
+	 * @param owner Owner
+	 */
+	protected setOwner(param: IResolvedParam, owner: Object){
+
+		Object.defineProperty(param, "owner", { value: owner, enumerable: false, writable: true, configurable: true });
+
+		return param;
+
+	}
+
+	/**
+	 * Returns deep copy of param structure owned by owner
+	 *
+	 * Used when structure is copied within the same tree, sources are shared.
+	 *
+	 * @param param Parameter
+	 * @param owner New owner
+	 */
+	protected copyParam(param: IResolvedParam, owner: Object) : IResolvedParam {
+
+		let copy = <IResolvedParam> merge(param);
+
+		copy.value = this.copyValue(param.value);
+
+		this.setOwner(copy, owner);
+
+		if(copy.type !== TOKEN_TYPE.VALUE)
+			for(let i in copy.value)
+				copy.value[i] = this.copyParam(copy.value[i], owner);
+
+		if(copy.merges)
+			copy.merges = copy.merges.map((layer) => this.copyParam(layer, owner));
+
+		return copy;
+
+	}
+
+	/**
+	 * Returns shallow copy of map or sequence value, scalar values are returned as is
+	 *
+	 * @param value Value
+	 */
+	protected copyValue(value: any){
+
+		if(value instanceof Array)
+			return value.slice();
+		else if(value instanceof Object)
+			return merge(value);
+		else
+			return value;
+
+	}
+
+	/**
+	 * Returns if list contains source of same class and token
+	 *
+	 * @param sources Sources list
+	 * @param source Source to look for
+	 */
+	protected hasSource(sources: Array<IResolvedSource>, source: IResolvedSource){
+
+		for(let i = 0; i < sources.length; i++){
+
+			if(sources[i].className !== source.className || sources[i].classType !== source.classType)
+				continue;
+
+			if(sources[i].token === source.token)
+				return true;
+
+			if(sources[i].token && source.token && sources[i].token.line === source.token.line && sources[i].token.column === source.token.column)
+				return true;
+
+		}
+
+		return false;
+
+	}
+
+	/**
+	 * Collects constant violations from params tree
+	 *
+	 * @param param Parameter
+	 * @param path Parameter path
+	 * @param violations Target list
+	 */
+	protected collectViolations(param: IResolvedParam, path: string, violations: Array<IConstantViolation>){
+
+		if(param.violations)
+			for(let i = 0; i < param.violations.length; i++)
+				violations.push({
+					path: path,
+					source: param.violations[i],
+					message: "Constant parameter '" + path + "' cannot be overridden by class '" + param.violations[i].className + "'."
+				});
+
+		if(param.type === TOKEN_TYPE.MAP || param.type === TOKEN_TYPE.SEQUENCE)
+			for(let i in param.value)
+				this.collectViolations(param.value[i], ( path !== "" ? path + ":" : "" ) + i, violations);
+
+		return violations;
+
+	}
+
+	/**
+	 * Collects unknown annotation warnings from params tree
+	 *
+	 * @param param Parameter
+	 * @param path Parameter path
+	 * @param warnings Target list
+	 */
+	protected collectAnnotationWarnings(param: IResolvedParam, path: string, warnings: Array<string>){
+
+		if(param.annotations)
+			for(let i = 0; i < param.annotations.unknown.length; i++)
+				warnings.push("Unknown annotation '@" + param.annotations.unknown[i] + "' in comment of parameter '" + path + "'.");
+
+		if(param.type === TOKEN_TYPE.MAP || param.type === TOKEN_TYPE.SEQUENCE)
+			for(let i in param.value)
+				this.collectAnnotationWarnings(param.value[i], ( path !== "" ? path + ":" : "" ) + i, warnings);
+
+		return warnings;
+
+	}
+
+	/**
+	 * Returns if param value consists of single reference or inventory query only
+	 *
+	 * @param param Parameter
+	 */
+	protected isSoleReference(param: IResolvedParam){
+
+		if(param.type !== TOKEN_TYPE.VALUE || typeof param.value !== 'string' || param.interpolated)
+			return false;
+
+		if(param.value.substr(0, 2) !== "${" && param.value.substr(0, 2) !== "$[")
+			return false;
+
+		let parts = this.refParser.parse(param.value);
+
+		return ( parts.length === 1 && parts[0].type !== REF_PART_TYPE.STRING );
+
+	}
+
+	/**
+	 * Returns comment lines of token followed by its inline comment
+	 *
+	 * @param token Token
+	 */
+	protected getCommentLines(token: IToken){
+
+		return ( token.inlineComment ? token.comment.concat(token.inlineComment.split("\n")) : token.comment );
+
+	}
+
+	/**
+	 * Parses comment of token to description and annotations
+	 *
+	 * Inline comments are parsed separately, so they do not continue
+	 * multi-line tags of comment above the token.
+	 *
+	 * @param token Token
+	 */
+	protected parseComment(token: IToken) : IParsedComment {
+
+		let comment = this.annotationParser.parse(token.comment);
+		let inline = ( token.inlineComment ? token.inlineComment.split("\n") : [] );
+
+		for(let i = 0; i < inline.length; i++){
+
+			let _comment = this.annotationParser.parse([ inline[i] ]);
+
+			comment.description = comment.description.concat(_comment.description);
+			comment.annotations = this.annotationParser.merge(comment.annotations, _comment.annotations);
+
+		}
+
+		return comment;
+
+	}
+
 	/**
 	 * Merges token(s) to param(s)
 	 *
 	 * @param target Target param
 	 * @param token Source token
 	 * @param name Source class name
+	 * @param override If param has override prefix
+	 * @param constant If param has constant prefix
 	 */
-	protected parseTokenParams(token: IToken, className: string, classType: CLASS_TYPE) {
+	protected parseTokenParams(token: IToken, className: string, classType: CLASS_TYPE, override: boolean = false, constant: boolean = false) {
+
+		//Parse annotations
+		let comment = this.parseComment(token);
 
 		let source: IResolvedSource = {
 			className: className,
@@ -207,26 +602,40 @@ export class Resolver {
 			type: token.type,
 			mergeType: MERGE_TYPE.ORIGIN,
 			value: null,
-			comment: token.comment
+			comment: comment.description
 		}
 
 		//Define param
 		let param: IResolvedParam = {
 			sources: [ source ],
 			type: source.type,
-			value: clone(source.value),
+			value: source.value,
 			ref: null,
-			comment: [source.comment]
+			comment: [source.comment],
+			override: override,
+			constant: constant
 		};
 
+		if(comment.annotations)
+			param.annotations = comment.annotations;
+
 		//Parse map
 		if(token.type === TOKEN_TYPE.MAP){
 
 			source.value = "[map]";
 			param.value = {};
 
-			for(let i in token.value)
-				param.value[i] = this.parseTokenParams(token.value[i], className, classType);
+			for(let i in token.value){
+
+				//Strip override and constant prefixes
+				if(i.substr(0, 1) === "~")
+					param.value[i.substr(1)] = this.parseTokenParams(token.value[i], className, classType, true);
+				else if(i.substr(0, 1) === "=")
+					param.value[i.substr(1)] = this.parseTokenParams(token.value[i], className, classType, false, true);
+				else
+					param.value[i] = this.parseTokenParams(token.value[i], className, classType);
+
+			}
 
 		//Parse sequence
 		} else if(token.type === TOKEN_TYPE.SEQUENCE){
@@ -250,30 +659,149 @@ export class Resolver {
 	}
 
 	/**
-	 * Resolves file
+	 * Creates reclass automatic parameters of node
 	 *
-	 * @param prefix Prefix directory
-	 * @param name Relative file / directory path without extension
-	 * @param depth Nesting depth
-	 * @param loadedClasses Already loaded classes
+	 * @param rClass Node class
+	 * @param environment Node environment
 	 */
-	public resolve(prefix: string, name: string, path: string, depth: number = 0, loadedClasses: Array<string> = []){
+	protected createReclassParams(rClass: IResolvedClass, environment: string){
 
-		if(depth > this.depthLimit)
-			throw new Error("Maximum class depth limit of " + this.depthLimit + " exceeded.");
+		let path = rClass.relativePath.substr(this.nodesDir.length + 1).replace(/\.ya?ml$/, '');
 
-		let classId = prefix + "/" + name;
+		let createParam = (value: any) : IResolvedParam => {
 
-		//Check cache
-		if(this.cache[classId])
-			return this.cache[classId];
+			let type = ( value instanceof Array ? TOKEN_TYPE.SEQUENCE : ( value instanceof Object ? TOKEN_TYPE.MAP : TOKEN_TYPE.VALUE ) );
+
+			let source: IResolvedSource = {
+				className: "_reclass_",
+				classType: CLASS_TYPE.NODE,
+				token: null,
+				type: type,
+				mergeType: MERGE_TYPE.ORIGIN,
+				value: ( type === TOKEN_TYPE.MAP ? "[map]" : ( type === TOKEN_TYPE.SEQUENCE ? "[sequence]" : value ) ),
+				comment: []
+			};
+
+			let param: IResolvedParam = {
+				sources: [ source ],
+				type: type,
+				value: value,
+				ref: null,
+				comment: []
+			};
+
+			if(type === TOKEN_TYPE.MAP){
+
+				param.value = {};
+
+				for(let i in value)
+					param.value[i] = createParam(value[i]);
+
+			} else if(type === TOKEN_TYPE.SEQUENCE){
+
+				param.value = value.map(createParam);
+
+			}
+
+			return param;
+
+		};
+
+		return createParam({
+			_reclass_: {
+				name: {
+					full: rClass.name,
+					short: rClass.name.split(".")[0],
+					path: path,
+					parts: path.split("/")
+				},
+				environment: environment
+			}
+		});
+
+	}
+
+	/**
+	 * Returns classes mapped to node by class mappings
+	 *
+	 * @param nodeName Node name
+	 */
+	protected getMappedClasses(nodeName: string){
+
+		let classes: Array<{ name: string, mapping: string }> = [];
+
+		for(let i = 0; i < this.classMappings.length; i++){
+
+			let mapping = this.classMappings[i];
+			let match = mapping.pattern.exec(nodeName);
+
+			if(!match) continue;
+
+			for(let j = 0; j < mapping.classes.length; j++){
+
+				let className = mapping.classes[j];
+
+				//Substitute regexp groups
+				if(mapping.isRegExp)
+					className = className.replace(/\\(\d+)/g, (str, group) => {
+						return match[parseInt(group)] || "";
+					});
+
+				classes.push({
+					name: className,
+					mapping: mapping.rule
+				});
+
+			}
+
+		}
+
+		return classes;
+
+	}
+
+	/**
+	 * Resolves relative class name against including class namespace
+	 *
+	 * Leading dot means class namespace (parent of class, or class itself for init
+	 * classes), every next dot goes one level up.
+	 *
+	 * @param name Class name as written in classes list
+	 * @param rClass Including class
+	 */
+	protected resolveClassName(name: string, rClass: IResolvedClass){
+
+		if(name.substr(0, 1) !== ".")
+			return name;
+
+		let dots = /^\.+/.exec(name)[0].length;
+		let namespace = ( rClass.type === CLASS_TYPE.CLASS ? rClass.name.split(".") : [] );
+
+		if(rClass.type === CLASS_TYPE.CLASS && !rClass.isInit)
+			namespace.pop();
+
+		if(dots - 1 > namespace.length)
+			throw new Error("Relative class name '" + name + "' in class '" + rClass.name + "' points outside of classes directory.");
+
+		namespace = namespace.slice(0, namespace.length - (dots - 1));
+
+		return namespace.concat([ name.substr(dots) ]).join(".");
+
+	}
+
+	/**
+	 * Finds YAML file of class or node, returns null if not found
+	 *
+	 * @param prefix Prefix directory
+	 * @param name Class name
+	 * @param path Relative file / directory path without extension
+	 */
+	protected findFile(prefix: string, name: string, path: string){
 
-		//Define path
 		let _path = this.reclassRoot + prefix + "/" + path;
 		let relativePath = prefix + "/" + name;
 		let isInit: boolean = false;
 
-		//Identify YAML
 		if(fs.existsSync(_path) && fs.lstatSync(_path).isDirectory()){
 			_path+= "/init";
 			relativePath+= "/init";
@@ -292,26 +820,114 @@ export class Resolver {
 
 		} else{
 			
-			throw new Error("File '" + _path + "(init.yml|.yml|.yaml)' not found.");
+			return null;
 
 		}
 
-		//Load yaml
-		let yaml = fs.readFileSync(_path, { encoding: 'utf-8' });
-		let stat = fs.statSync(_path);
+		return {
+			filename: _path,
+			relativePath: relativePath,
+			isInit: isInit
+		};
 
-		//Parse tokens
-		let token;
+	}
 
-		try {
-			
-			token = this.tokenizer.parse(yaml);
+	/**
+	 * Returns if missing class should be skipped by ignore_class_notfound settings
+	 *
+	 * @param name Class name
+	 */
+	protected isIgnoredNotFound(name: string){
 
-		} catch(err) {
+		if(!this.ignoreClassNotFound)
+			return false;
 
-			throw new Error("YAML parse error: " + String(err));
+		if(this.ignoreClassNotFoundRegexp.length === 0)
+			return true;
 
-		}
+		for(let i = 0; i < this.ignoreClassNotFoundRegexp.length; i++)
+			if(this.ignoreClassNotFoundRegexp[i].test(name))
+				return true;
+
+		return false;
+
+	}
+
+	/**
+	 * Merges local applications, params and exports of class
+	 *
+	 * Classes are merged in linearized order, so local values are merged
+	 * instead of already resolved ones to merge each class only once.
+	 *
+	 * @param rClass Target class
+	 * @param source Merged class
+	 */
+	protected mergeLocals(rClass: IResolvedClass, source: IResolvedClass){
+
+		for(let i in source.localApplications){
+
+			if(!rClass.applications[i])
+				rClass.applications[i] = <IResolvedApplication> merge(source.localApplications[i]);
+			else
+				rClass.applications[i].sources = rClass.applications[i].sources.concat(source.localApplications[i].sources);
+
+			//Last merged class decides if application is removed
+			rClass.applications[i].removed = source.localApplications[i].removed;
+
+		}
+
+		this.mergeParams(rClass.params, source.localParams);
+		this.mergeParams(rClass.exports, source.localExports);
+
+	}
+
+	/**
+	 * Resolves file
+	 *
+	 * @param prefix Prefix directory
+	 * @param name Relative file / directory path without extension
+	 * @param depth Nesting depth
+	 */
+	public resolve(prefix: string, name: string, path: string, depth: number = 0){
+
+		if(depth > this.depthLimit)
+			throw new Error("Maximum class depth limit of " + this.depthLimit + " exceeded.");
+
+		let classId = prefix + "/" + name;
+
+		//Check cache
+		if(this.cache[classId])
+			return this.cache[classId];
+
+		//Identify YAML
+		let file = this.findFile(prefix, name, path);
+
+		if(!file)
+			throw new Error("File '" + this.reclassRoot + prefix + "/" + path + "(init.yml|.yml|.yaml)' not found.");
+
+		if(this.resolvedIds.indexOf(classId) < 0)
+			this.resolvedIds.push(classId);
+
+		let _path = file.filename;
+		let relativePath = file.relativePath;
+		let isInit = file.isInit;
+
+		//Load yaml
+		let yaml = fs.readFileSync(_path, { encoding: 'utf-8' });
+		let stat = fs.statSync(_path);
+
+		//Parse tokens
+		let token;
+
+		try {
+			
+			token = this.tokenizer.parse(yaml);
+
+		} catch(err) {
+
+			throw new Error("YAML parse error: " + String(err));
+
+		}
 
 		if(!token)
 			throw new Error("Class '" + name + "' file is empty.");
@@ -324,6 +940,7 @@ export class Resolver {
 			filename: _path,
 			relativePath: relativePath,
 			isInit: isInit,
+			environment: null,
 			classes: [],
 			applications: {},
 			dependents: {},
@@ -334,14 +951,86 @@ export class Resolver {
 				ref: null,
 				comment: []
 			},
+			exports: {
+				type: TOKEN_TYPE.MAP,
+				sources: [],
+				value: {},
+				ref: null,
+				comment: []
+			},
+			localApplications: {},
+			localParams: {
+				type: TOKEN_TYPE.MAP,
+				sources: [],
+				value: {},
+				ref: null,
+				comment: []
+			},
+			localExports: {
+				type: TOKEN_TYPE.MAP,
+				sources: [],
+				value: {},
+				ref: null,
+				comment: []
+			},
 			comment: token.comment,
 			fingerprint: null,
 			modified: stat.mtime.getTime(),
-			resolvedClasses: []
+			resolvedClasses: [],
+			linearization: [],
+			classEntries: [],
+			optionalClasses: [],
+			refErrors: [],
+			constantViolations: [],
+			annotationWarnings: []
 		};
 
 		let fingerprint = crypto.createHash('md5').update(_path + ":" + stat.mtime);
 
+		//Merged params are written through owned copies only
+		let owner = {};
+
+		this.setOwner(rClass.params, owner);
+		this.setOwner(rClass.exports, owner);
+
+		//Set environment and reclass automatic parameters
+		if(rClass.type === CLASS_TYPE.NODE){
+
+			rClass.environment = this.defaultEnvironment;
+
+			if(token.value['environment']){
+
+				let _envToken: IToken = token.value['environment'];
+
+				if(_envToken.type !== TOKEN_TYPE.VALUE)
+					throw new Error("Error parsing node '" + classId + "', 'environment' is not a value type.");
+
+				rClass.environment = String(_envToken.value);
+
+			}
+
+			fingerprint.update("environment:" + rClass.environment);
+
+			this.mergeParams(rClass.params, this.createReclassParams(rClass, rClass.environment));
+
+		}
+
+		//Add classes from class mappings
+		let _classNames: Array<{ name: string, mapping: string, token?: IToken }> = [];
+
+		if(rClass.type === CLASS_TYPE.NODE){
+
+			let _mapped = this.getMappedClasses(name);
+
+			for(let i = 0; i < _mapped.length; i++){
+
+				_classNames.push(_mapped[i]);
+				fingerprint.update("mapping:" + _mapped[i].mapping);
+
+			}
+
+		}
+
 		//Parse classes
 		if(token.value['classes']){
 
@@ -350,28 +1039,62 @@ export class Resolver {
 			if(_classesToken.type != TOKEN_TYPE.SEQUENCE)
 				throw new Error("Error parsing class '" + classId + "', 'classes' are not sequence type.");
 
-			for(let i = 0; i < _classesToken.value.length; i++){
+			for(let i = 0; i < _classesToken.value.length; i++)
+				_classNames.push({
+					name: String(_classesToken.value[i].value),
+					mapping: null,
+					token: _classesToken.value[i]
+				});
 
-				let _classToken: IToken = _classesToken.value[i];
-				let _classId = this.classesDir + "/" + _classToken.value;
+		}
+
+		//Resolve classes
+		if(_classNames.length > 0){
+
+			for(let i = 0; i < _classNames.length; i++){
+
+				let _className = this.resolveClassName(_classNames[i].name, rClass);
+				let _classId = this.classesDir + "/" + _className;
 
-				if(rClass.resolvedClasses.indexOf(_classToken.value) >= 0)
+				if(_classNames[i].token)
+					rClass.classEntries.push({
+						name: _className,
+						token: _classNames[i].token
+					});
+
+				if(rClass.resolvedClasses.indexOf(_className) >= 0)
 					continue;
 
-				let _resolvedClass = {
+				let _resolvedClass: IDependencyClass = {
 					id: _classId,
-					name: _classToken.value,
+					name: _className,
 					classes: [],
-					error: null
+					error: null,
+					mapping: _classNames[i].mapping
 				}
 
-				rClass.resolvedClasses.push(_classToken.value);
+				rClass.resolvedClasses.push(_className);
+
+				//Create dependency tree, missing classes included to resolve dependents again when created
+				if(!this.dependencyTree[_classId])
+					this.dependencyTree[_classId] = [];
+
+				if(this.dependencyTree[_classId].indexOf(classId) < 0)
+					this.dependencyTree[_classId].push(classId);
+
+				//Skip optional missing class
+				if(!this.cache[_classId] && this.isIgnoredNotFound(_className) && !this.findFile(this.classesDir, _className, _className.replace(/\./g, '/'))){
+
+					rClass.optionalClasses.push(_className);
+					fingerprint.update("optional:" + _className);
+					continue;
+
+				}
 
 				try {
 					
-					let _class = this.resolveClass(_classToken.value, depth + 1, loadedClasses);
+					let _class = this.resolveClass(_className, depth + 1);
 
-					//Create dependency tree
 					_class.dependents[classId] = {
 						id: classId,
 						type: rClass.type,
@@ -380,35 +1103,16 @@ export class Resolver {
 
 					_resolvedClass.classes = _class.classes;
 
-					if(!this.dependencyTree[_classId])
-						this.dependencyTree[_classId] = [];
-
-					if(this.dependencyTree[_classId].indexOf(classId) < 0)
-						this.dependencyTree[_classId].push(classId);
-
-					//Merge params if not already merged elsewhere
-					//if(loadedClasses.indexOf(_class.id) < 0){
-
-						//Merge applications
-						for(let j in _class.applications){
+					//Linearize - every class is merged once, after classes it includes
+					for(let j = 0; j < _class.linearization.length; j++)
+						if(rClass.linearization.indexOf(_class.linearization[j]) < 0)
+							rClass.linearization.push(_class.linearization[j]);
 
-							if(!rClass.applications[j])
-								rClass.applications[j] = clone(_class.applications[j]);
-							else
-								rClass.applications[j].sources = _class.applications[j].sources.concat(rClass.applications[j].sources);
+					if(rClass.linearization.indexOf(_class.name) < 0)
+						rClass.linearization.push(_class.name);
 
-						}
-
-						//Merge params
-						this.mergeParams(rClass.params, _class.params);
-
-						//Add to loaded classes
-						loadedClasses.push(_class.id);
-
-						//Update fingerprint
-						fingerprint.update(_class.fingerprint);
-
-					//}
+					//Update fingerprint
+					fingerprint.update(_class.fingerprint);
 
 				} catch(err) {
 
@@ -434,18 +1138,30 @@ export class Resolver {
 				for(let i = 0; i < _appsToken.value.length; i++){
 
 					let _appToken = _appsToken.value[i];
+					let _appName = String(_appToken.value);
+					let _removal = false;
 
-					if(!rClass.applications[_appToken.value])
-						rClass.applications[_appToken.value] = {
-							name: _appToken.value,
+					//Application removal
+					if(_appName.substr(0, 1) === "~"){
+						_appName = _appName.substr(1);
+						_removal = true;
+					}
+
+					if(!rClass.localApplications[_appName])
+						rClass.localApplications[_appName] = {
+							name: _appName,
+							removed: false,
 							sources: []
 						};
 
-					rClass.applications[_appToken.value].sources.push({
+					rClass.localApplications[_appName].removed = _removal;
+
+					rClass.localApplications[_appName].sources.push({
 						className: rClass.name,
 						classType: rClass.type,
 						token: _appToken,
-						comment: _appToken.comment
+						comment: this.getCommentLines(_appToken),
+						removal: _removal
 					});
 
 				}
@@ -460,12 +1176,36 @@ export class Resolver {
 			if(_paramsToken.type !== TOKEN_TYPE.MAP)
 				throw new Error("Error parsing class '" + classId + "', 'parameters' are not map type.");
 
-			let localParams = this.parseTokenParams(_paramsToken, rClass.name, rClass.type);
+			rClass.localParams = this.parseTokenParams(_paramsToken, rClass.name, rClass.type);
 
-			this.mergeParams(rClass.params, localParams);
+			this.collectAnnotationWarnings(rClass.localParams, "", rClass.annotationWarnings);
 
 		}
 
+		//Add exports
+		if(token.value['exports']){
+
+			let _exportsToken: IToken = token.value['exports'];
+
+			if(_exportsToken.type !== TOKEN_TYPE.MAP)
+				throw new Error("Error parsing class '" + classId + "', 'exports' are not map type.");
+
+			rClass.localExports = this.parseTokenParams(_exportsToken, rClass.name, rClass.type);
+
+			this.collectAnnotationWarnings(rClass.localExports, "exports", rClass.annotationWarnings);
+
+		}
+
+		//Merge linearized classes and then class itself
+		for(let i = 0; i < rClass.linearization.length; i++)
+			this.mergeLocals(rClass, this.cache[this.classesDir + "/" + rClass.linearization[i]]);
+
+		this.mergeLocals(rClass, rClass);
+
+		//Collect constant violations
+		this.collectViolations(rClass.params, "", rClass.constantViolations);
+		this.collectViolations(rClass.exports, "exports", rClass.constantViolations);
+
 		//Store fingerprint
 		rClass.fingerprint = fingerprint.digest('hex');
 
@@ -478,95 +1218,553 @@ export class Resolver {
 	/**
 	 * Parses params interpolation
 	 *
-	 * @param rootParam Root parameter
+	 * @param ctx Interpolation context
 	 * @param param Current parameter
+	 * @param path Current parameter path
 	 */
-	protected parseInterpolation(rootParam: IResolvedParam, param: IResolvedParam){
+	protected parseInterpolation(ctx: IInterpolationContext, param: IResolvedParam, path: string = ""){
+
+		this.resolveStructure(ctx, param, path);
 
 		if(param.type === TOKEN_TYPE.MAP){
 
 			if(param.value instanceof Object)
-				for(let i in param.value)
-					this.parseInterpolation(rootParam, param.value[i]);
+				for(let i in param.value){
+					param.value[i] = this.own(param.value[i], param.owner);
+					this.parseInterpolation(ctx, param.value[i], ( path !== "" ? path + ":" : "" ) + i);
+				}
 
 		} else if(param.type === TOKEN_TYPE.SEQUENCE){
 
 			if(param.value instanceof Array)
-				for(let i = 0; i < param.value.length; i++)
-					this.parseInterpolation(rootParam, param.value[i]);
+				for(let i = 0; i < param.value.length; i++){
+					param.value[i] = this.own(param.value[i], param.owner);
+					this.parseInterpolation(ctx, param.value[i], ( path !== "" ? path + ":" : "" ) + i);
+				}
+
+		} else if(typeof param.value === 'string' && !param.interpolated) {
+
+			param.interpolated = true;
+
+			let parts = this.refParser.parse(param.value);
+
+			if(!this.refParser.hasReferences(parts)){
+				param.value = this.interpolateParts(ctx, param, parts);
+				return;
+			}
+
+			ctx.chain.push(path);
+
+			param.value = this.interpolateParts(ctx, param, parts);
+
+			ctx.chain.pop();
+
+		}
+
+	}
+
+	/**
+	 * Resolves reference to map or sequence and applies deferred merges
+	 *
+	 * @param ctx Interpolation context
+	 * @param param Current parameter
+	 * @param path Current parameter path
+	 */
+	protected resolveStructure(ctx: IInterpolationContext, param: IResolvedParam, path: string){
+
+		let isReference = this.isSoleReference(param);
+
+		if(!isReference && !param.merges)
+			return;
+
+		let merges = ( param.merges || [] ).map((layer) => this.own(layer, param.owner));
+
+		param.merges = null;
+
+		ctx.chain.push(path);
+
+		//Copy referenced value
+		if(isReference){
+
+			param.interpolated = true;
+
+			let ref = this.refParser.parse(param.value)[0];
+			let refParam = ( ref.type === REF_PART_TYPE.QUERY ? this.evaluateQuery(ctx, param, ref) : this.lookupReference(ctx, param, ref) );
+
+			if(refParam && refParam.type !== TOKEN_TYPE.VALUE){
+
+				param.type = refParam.type;
+				param.value = this.copyParam(refParam, param.owner).value;
 
-		} else if(typeof param.value === 'string') {
+			} else {
+
+				param.value = ( refParam ? refParam.value : null );
+
+			}
+
+		}
+
+		//Merge later values
+		for(let i = 0; i < merges.length; i++){
+
+			this.resolveStructure(ctx, merges[i], path);
+			this.mergeParams(param, merges[i], false);
+
+		}
+
+		ctx.chain.pop();
+
+	}
+
+	/**
+	 * Joins parsed reference parts to value
+	 *
+	 * Single reference keeps type of referenced value.
+	 *
+	 * @param ctx Interpolation context
+	 * @param param Current parameter
+	 * @param parts Parsed reference parts
+	 */
+	protected interpolateParts(ctx: IInterpolationContext, param: IResolvedParam, parts: Array<IRefPart>){
+
+		let values = [];
+
+		for(let i = 0; i < parts.length; i++){
+
+			if(parts[i].type !== REF_PART_TYPE.STRING)
+				values.push( this.resolveReference(ctx, param, parts[i]) );
+			else
+				values.push( parts[i].value );
+
+		}
 
-			let resolved = false;
+		if(values.length === 1 && parts[0].type !== REF_PART_TYPE.STRING)
+			return values[0];
 
-			while(!resolved){
+		return values.join("");
 
-				let pattern = new RegExp(/\${[^}]+}/g);
-				let ip;
-				let replacements = [];
+	}
+
+	/**
+	 * Resolves single reference or query and returns referenced scalar value
+	 *
+	 * @param ctx Interpolation context
+	 * @param param Current parameter
+	 * @param ref Reference part
+	 */
+	protected resolveReference(ctx: IInterpolationContext, param: IResolvedParam, ref: IRefPart){
 
-				resolved = true;
+		let refParam = ( ref.type === REF_PART_TYPE.QUERY ? this.evaluateQuery(ctx, param, ref) : this.lookupReference(ctx, param, ref) );
 
-				while((ip = pattern.exec(param.value))){
+		if(!refParam)
+			return null;
 
-					let refKey = ip[0].substr(2, ip[0].length - 3);
-					let refPath = refKey.split(":");
+		if(refParam.type !== TOKEN_TYPE.VALUE){
 
-					let stack = rootParam;
-					let key;
+			let path = ctx.chain[ctx.chain.length - 1];
+			let refKey = ( ref.type === REF_PART_TYPE.QUERY ? ref.value : param.ref[param.ref.length - 1] );
 
-					while((key = refPath.shift())){
+			ctx.errors.push({
+				type: REF_ERROR_TYPE.TYPE_MISMATCH,
+				path: path,
+				reference: refKey,
+				chain: ctx.chain.slice(),
+				message: "Reference '" + refKey + "' in parameter '" + path + "' points to map or sequence and cannot be interpolated into string."
+			});
 
-						if(stack.value instanceof Object && stack.value[key] !== undefined)
-							stack = stack.value[key];
-						else {
-							stack = null;
-							break;
-						}
+			return null;
+
+		}
+
+		return refParam.value;
+
+	}
+
+	/**
+	 * Finds referenced parameter and resolves it
+	 *
+	 * @param ctx Interpolation context
+	 * @param param Current parameter
+	 * @param ref Reference part
+	 */
+	protected lookupReference(ctx: IInterpolationContext, param: IResolvedParam, ref: IRefPart) : IResolvedParam {
+
+		//Resolve nested references first, failed ones are already reported
+		let keyParts = [];
+		let errorCount = ctx.errors.length;
+
+		for(let i = 0; i < ref.parts.length; i++){
+
+			if(ref.parts[i].type === REF_PART_TYPE.STRING){
+				keyParts.push(ref.parts[i].value);
+				continue;
+			}
+
+			let value = this.resolveReference(ctx, param, ref.parts[i]);
+
+			if(value === null && ctx.errors.length > errorCount)
+				return null;
+
+			keyParts.push(value);
+
+		}
+
+		let refKey = keyParts.join("");
+		let refPath = refKey.split(":");
+		let path = ctx.chain[ctx.chain.length - 1];
+
+		param.ref = ( param.ref || [] ).concat([ "${" + refKey + "}" ]);
+
+		let stack = ctx.root;
+		let stackPath = [];
+
+		while(refPath.length > 0){
+
+			let key = refPath.shift();
+
+			stackPath.push(key);
+
+			//Empty segments are not valid keys
+			if(key !== "" && stack.value instanceof Object && stack.value[key] !== undefined){
+
+				stack = stack.value[key] = this.own(stack.value[key], stack.owner);
+
+			} else {
+
+				ctx.errors.push({
+					type: REF_ERROR_TYPE.UNRESOLVED,
+					path: path,
+					reference: "${" + refKey + "}",
+					chain: ctx.chain.slice(),
+					message: "Cannot resolve reference '${" + refKey + "}' in parameter '" + path + "'."
+				});
+
+				return null;
+
+			}
+
+			//Check cycle, referenced value cannot contain the reference either
+			let cyclePath = stackPath.join(":");
+			let cycleStart = -1;
+
+			for(let i = 0; i < ctx.chain.length && cycleStart < 0; i++)
+				if(ctx.chain[i] === cyclePath || ( refPath.length === 0 && ctx.chain[i].substr(0, cyclePath.length + 1) === cyclePath + ":" ))
+					cycleStart = i;
+
+			if(cycleStart >= 0){
+
+				let chain = ctx.chain.slice(cycleStart).concat([ refKey ]);
+
+				ctx.errors.push({
+					type: REF_ERROR_TYPE.CYCLE,
+					path: path,
+					reference: "${" + refKey + "}",
+					chain: chain,
+					message: "Reference cycle detected: " + chain.join(" -> ") + "."
+				});
+
+				return null;
+
+			}
+
+			this.resolveStructure(ctx, stack, cyclePath);
+
+		}
+
+		//Referenced value can contain references too
+		this.parseInterpolation(ctx, stack, refKey);
+
+		return stack;
+
+	}
+
+	/**
+	 * Parses inventory query
+	 *
+	 * @param query Query string without sentinels
+	 */
+	protected parseQuery(query: string) : IInventoryQuery {
+
+		let tokens = query.split(/\s+/).filter((t) => t !== "");
+
+		let res: IInventoryQuery = {
+			query: query,
+			allEnvs: false,
+			ignoreErrors: false,
+			value: null,
+			condition: null
+		};
+
+		//Parse options
+		while(tokens.length > 0 && tokens[0].substr(0, 1) === "+"){
+
+			let option = tokens.shift();
+
+			if(option === "+AllEnvs")
+				res.allEnvs = true;
+			else if(option === "+IgnoreErrors")
+				res.ignoreErrors = true;
+			else
+				throw new Error("Unknown query option '" + option + "'.");
+
+		}
+
+		//Parse value
+		if(tokens.length > 0 && tokens[0] !== "if"){
+
+			res.value = tokens.shift();
+
+			if(res.value.substr(0, 8) !== "exports:")
+				throw new Error("Query value '" + res.value + "' must reference exports.");
+
+		}
+
+		//Parse condition
+		if(tokens.length > 0){
+
+			if(tokens.shift() !== "if")
+				throw new Error("Expected 'if' in query.");
+
+			res.condition = [ [] ];
+
+			while(tokens.length > 0){
+
+				if(tokens.length < 3)
+					throw new Error("Incomplete query condition.");
+
+				let test: IQueryTest = {
+					left: tokens.shift(),
+					operator: tokens.shift(),
+					right: tokens.shift()
+				};
+
+				if(test.operator !== "==" && test.operator !== "!=")
+					throw new Error("Unknown query operator '" + test.operator + "'.");
+
+				res.condition[res.condition.length - 1].push(test);
+
+				if(tokens.length === 0)
+					break;
+
+				let logic = tokens.shift();
+
+				if(logic === "or")
+					res.condition.push([]);
+				else if(logic !== "and")
+					throw new Error("Unknown query logical operator '" + logic + "'.");
+
+				if(tokens.length === 0)
+					throw new Error("Incomplete query condition.");
+
+			}
+
+		} else if(!res.value) {
+
+			throw new Error("Empty query.");
+
+		}
+
+		return res;
+
+	}
+
+	/**
+	 * Returns param by path or null if not found
+	 *
+	 * @param root Root param
+	 * @param path Path split by ':'
+	 * @param write If to own params on path by owner of root for write
+	 */
+	protected getParamByPath(root: IResolvedParam, path: string, write: boolean = false) : IResolvedParam {
+
+		let refPath = path.split(":");
+		let stack = root;
+
+		while(refPath.length > 0){
+
+			let key = refPath.shift();
+
+			if(key !== "" && stack.value instanceof Object && stack.value[key] !== undefined)
+				stack = ( write ? stack.value[key] = this.own(stack.value[key], stack.owner) : stack.value[key] );
+			else
+				return null;
+
+		}
+
+		return stack;
+
+	}
+
+	/**
+	 * Evaluates query operand for node
+	 *
+	 * @param ctx Interpolation context
+	 * @param node Node exports
+	 * @param operand Operand
+	 */
+	protected evaluateQueryOperand(ctx: IInterpolationContext, node: INodeExports, operand: string){
+
+		let param: IResolvedParam;
+
+		if(operand.substr(0, 8) === "exports:"){
+
+			param = this.getParamByPath(node.exports, operand.substr(8));
+
+		} else if(operand.substr(0, 5) === "self:"){
+
+			param = this.getParamByPath(ctx.root, operand.substr(5), true);
+
+			if(param)
+				this.parseInterpolation(ctx, param, operand.substr(5));
+
+		} else {
+
+			return operand;
+
+		}
+
+		return ( param && param.type === TOKEN_TYPE.VALUE ? String(param.value) : undefined );
+
+	}
+
+	/**
+	 * Evaluates inventory query and returns resulting param
+	 *
+	 * Value queries returns map of node name => exported value, queries
+	 * without value returns sequence of matching node names.
+	 *
+	 * @param ctx Interpolation context
+	 * @param param Current parameter
+	 * @param ref Query part
+	 */
+	protected evaluateQuery(ctx: IInterpolationContext, param: IResolvedParam, ref: IRefPart) : IResolvedParam {
+
+		//Exports are not available yet
+		if(!ctx.inventory)
+			return null;
+
+		let path = ctx.chain[ctx.chain.length - 1];
+		let query: IInventoryQuery;
+
+		ctx.queried = true;
+
+		try {
+
+			query = this.parseQuery(ref.parts[0].value);
+
+		} catch(err) {
+
+			ctx.errors.push({
+				type: REF_ERROR_TYPE.QUERY,
+				path: path,
+				reference: ref.value,
+				chain: ctx.chain.slice(),
+				message: "Invalid query '" + ref.value + "' in parameter '" + path + "': " + err.message
+			});
+
+			return null;
+
+		}
+
+		let lastSource = param.sources[param.sources.length - 1];
+
+		let result: IResolvedParam = {
+			sources: [],
+			type: ( query.value ? TOKEN_TYPE.MAP : TOKEN_TYPE.SEQUENCE ),
+			value: ( query.value ? {} : [] ),
+			ref: null,
+			comment: []
+		};
+
+		let resolvedQuery: IResolvedQuery = {
+			query: ref.value,
+			nodes: []
+		};
+
+		for(let i in ctx.inventory){
+
+			let node = ctx.inventory[i];
+
+			if(!query.allEnvs && node.environment !== ctx.environment)
+				continue;
+
+			//Test condition
+			if(query.condition){
+
+				let match = false;
+
+				for(let j = 0; j < query.condition.length && !match; j++){
+
+					let groupMatch = true;
+
+					for(let k = 0; k < query.condition[j].length && groupMatch; k++){
+
+						let test = query.condition[j][k];
+						let left = this.evaluateQueryOperand(ctx, node, test.left);
+						let right = this.evaluateQueryOperand(ctx, node, test.right);
+
+						if(left === undefined || right === undefined)
+							groupMatch = false;
+						else
+							groupMatch = ( test.operator === "==" ? left === right : left !== right );
 
 					}
 
-					replacements.push({
-						key: ip[0],
-						value: ( stack ? ( stack.value instanceof Object ? "#!ref!#" + ip[0].substr(2, ip[0].length - 3) : stack.value ) : null )
-					});
+					match = groupMatch;
 
 				}
 
-				if(replacements.length > 0){
+				if(!match) continue;
 
-					if(param.ref === null)
-						param.ref = [];
-					
-					resolved = false;
+			}
 
-				}
+			//Add value
+			if(query.value){
 
-				for(let i = 0; i < replacements.length; i++){
+				let exportParam = this.getParamByPath(node.exports, query.value.substr(8));
 
-					param.ref.push(replacements[i].key);
+				if(!exportParam) continue;
 
-					if(param.value === replacements[i].key)
-						param.value = replacements[i].value;
-					else
-						param.value = param.value.replace(replacements[i].key, replacements[i].value);
+				result.value[node.name] = exportParam;
 
-				}
+			} else {
+
+				let itemSource = <IResolvedSource> merge(lastSource);
+
+				itemSource.value = node.name;
+
+				result.value.push({
+					sources: [ itemSource ],
+					type: TOKEN_TYPE.VALUE,
+					value: node.name,
+					ref: null,
+					comment: [],
+					interpolated: true
+				});
 
 			}
 
+			resolvedQuery.nodes.push(node.name);
+
 		}
 
+		param.queries = ( param.queries || [] ).concat([ resolvedQuery ]);
+
+		return result;
+
 	}
 
 	/**
 	 * Returns new class instance with interpolated params
 	 *
 	 * @param rClass Original class
+	 * @param inventory Exports of all nodes for inventory queries
 	 */
-	public interpolateClass(rClass: IResolvedClass){
+	public interpolateClass(rClass: IResolvedClass, inventory: IExportsInventory = null){
+
+		let owner = {};
 
-		//Define new class with cloned params
+		//Define new class with params copied on write
 		let nClass: IResolvedClass = {
 			id: rClass.id,
 			name: rClass.name,
@@ -574,39 +1772,174 @@ export class Resolver {
 			filename: rClass.filename,
 			relativePath: rClass.relativePath,
 			isInit: rClass.isInit,
+			environment: rClass.environment,
 			classes: rClass.classes,
+			classEntries: rClass.classEntries,
 			applications: rClass.applications,
 			dependents: rClass.dependents,
-			params: clone(rClass.params),
-			//params: rClass.params,
+			params: this.own(rClass.params, owner),
+			exports: this.own(rClass.exports, owner),
+			localApplications: rClass.localApplications,
+			localParams: rClass.localParams,
+			localExports: rClass.localExports,
 			comment: rClass.comment,
 			fingerprint: rClass.fingerprint,
 			modified: rClass.modified,
-			resolvedClasses: rClass.resolvedClasses
+			resolvedClasses: rClass.resolvedClasses,
+			linearization: rClass.linearization,
+			optionalClasses: rClass.optionalClasses,
+			refErrors: [],
+			constantViolations: [],
+			annotationWarnings: rClass.annotationWarnings
 		}
 
-		this.parseInterpolation(nClass.params, nClass.params);
+		let ctx: IInterpolationContext = {
+			root: nClass.params,
+			errors: nClass.refErrors,
+			chain: [],
+			inventory: inventory,
+			environment: nClass.environment,
+			queried: false
+		};
+
+		this.parseInterpolation(ctx, nClass.params);
+		this.parseInterpolation(ctx, nClass.exports, "exports");
+
+		//Collect constant violations including deferred merges
+		this.collectViolations(nClass.params, "", nClass.constantViolations);
+		this.collectViolations(nClass.exports, "exports", nClass.constantViolations);
+
+		//Query results depends on all nodes
+		if(ctx.queried){
+
+			let fingerprint = crypto.createHash('md5').update(nClass.fingerprint);
+
+			for(let i in inventory)
+				fingerprint.update(inventory[i].fingerprint);
+
+			nClass.fingerprint = fingerprint.digest('hex');
+
+		}
 
 		return nClass;
 
 	}
 
+	/**
+	 * Returns param tree with deferred merges applied as declared
+	 *
+	 * Structures merged with references are kept as merge layers until
+	 * interpolation, so not interpolated classes would miss their keys.
+	 * Layers are merged without resolving references and references of
+	 * layers are listed in ref. Params without deferred merges in their
+	 * tree are returned as is.
+	 *
+	 * @param param Parameter
+	 * @param owner Owner of copied params
+	 */
+	public getDeclaredParam(param: IResolvedParam, owner: Object = {}) : IResolvedParam {
+
+		let view = param;
+
+		//Merge layers
+		if(param.merges){
+
+			let layers = [ param ].concat(param.merges);
+			let refs = ( param.ref || [] ).slice();
+			let layered: IResolvedParam = null;
+
+			for(let i = 0; i < layers.length; i++){
+
+				let layer = this.own(layers[i], owner);
+				layer.merges = null;
+
+				if(this.isSoleReference(layer)){
+
+					if(refs.indexOf(layer.value) < 0)
+						refs.push(layer.value);
+
+					if(!layered)
+						layered = layer;
+
+				} else if(!layered || layered.type === TOKEN_TYPE.VALUE){
+
+					layered = layer;
+
+				} else {
+
+					this.mergeParams(layered, layer, false);
+
+				}
+
+			}
+
+			view = this.setOwner(<IResolvedParam> merge(param), owner);
+			view.type = layered.type;
+			view.value = layered.value;
+			view.ref = ( refs.length > 0 ? refs : null );
+			view.merges = null;
+
+		}
+
+		//Apply merges of children
+		if(view.type === TOKEN_TYPE.MAP || view.type === TOKEN_TYPE.SEQUENCE){
+
+			for(let i in view.value){
+
+				let child = this.getDeclaredParam(view.value[i], owner);
+
+				if(child === view.value[i])
+					continue;
+
+				view = this.own(view, owner);
+				view.value[i] = child;
+
+			}
+
+		}
+
+		return view;
+
+	}
+
+	/**
+	 * Returns interpolated exports of node for inventory queries
+	 *
+	 * @param rClass Not interpolated node
+	 */
+	public getNodeExports(rClass: IResolvedClass) : INodeExports {
+
+		let nodeExports: INodeExports = {
+			name: rClass.name,
+			environment: rClass.environment,
+			exports: rClass.exports,
+			fingerprint: rClass.fingerprint
+		};
+
+		if(Object.keys(rClass.exports.value).length > 0)
+			nodeExports.exports = this.interpolateClass(rClass).exports;
+
+		return nodeExports;
+
+	}
+
 	/**
 	 * Resolves class
 	 *
 	 * @param name Class name
 	 * @param depth Nesting depth
-	 * @param loadedClasses Already loaded classes
 	 */
-	public resolveClass(name: string, depth: number = 0, loadedClasses: Array<string> = []){
+	public resolveClass(name: string, depth: number = 0){
 
-		return this.resolve(this.classesDir, name, name.replace(/\./g, '/'), depth, loadedClasses);
+		return this.resolve(this.classesDir, name, name.replace(/\./g, '/'), depth);
 
 	}
 
 	/**
 	 * Resolves node
 	 *
+	 * Node params contains reclass automatic parameters (_reclass_) as a base.
+	 *
 	 * @param name Node name
 	 * @param interpolate If to interpolate params
 	 * @param depth Nesting depth
@@ -629,12 +1962,19 @@ export class Resolver {
 	 */
 	public invalidate(classId: string){
 
-		console.log("INVALIDATING", classId);
+		//Delete from cache and from dependents of included classes
+		let rClass = this.cache[classId];
+
+		if(rClass){
+
+			for(let i = 0; i < rClass.classes.length; i++)
+				if(this.cache[rClass.classes[i].id])
+					delete this.cache[rClass.classes[i].id].dependents[classId];
 
-		//Delete from cache
-		if(this.cache[classId])
 			delete this.cache[classId];
 
+		}
+
 		//Invalidate dependants
 		if(this.dependencyTree[classId]){
 
@@ -646,6 +1986,20 @@ export class Resolver {
 
 	}
 
+	/**
+	 * Returns if class file has been modified or removed since it was resolved
+	 *
+	 * @param rClass Resolved class
+	 */
+	protected isModified(rClass: IResolvedClass){
+
+		if(!fs.existsSync(rClass.filename))
+			return true;
+
+		return fs.statSync(rClass.filename).mtime.getTime() != rClass.modified;
+
+	}
+
 	/**
 	 * Invalidates all modified classes in cache
 	 */
@@ -656,16 +2010,99 @@ export class Resolver {
 			let _class = this.cache[i];
 			if(!_class) continue;
 
-			let stat: fs.Stats;
+			if(this.isModified(_class))
+				this.invalidate(_class.id);
+
+		}
 
-			if(fs.existsSync(_class.filename))
-				stat = fs.statSync(_class.filename);
+		this.invalidateUnresolved();
 
-			if(!stat || stat.mtime.getTime() != _class.modified)
-				this.invalidate(_class.id);
+	}
+
+	/**
+	 * Invalidates dependents of classes which are not cached but their file exists
+	 *
+	 * Dependents of missing classes are resolved again when the class file is created,
+	 * dependents of classes which failed to resolve are resolved again on every check.
+	 */
+	protected invalidateUnresolved(){
+
+		for(let i in this.dependencyTree){
+
+			if(this.cache[i]) continue;
+
+			let className = i.substr(this.classesDir.length + 1);
+
+			if(this.findFile(this.classesDir, className, className.replace(/\./g, '/')))
+				this.invalidate(i);
+
+		}
+
+	}
+
+	/**
+	 * Invalidates cached classes loaded from changed files and their dependents
+	 *
+	 * Watchers report renamed files by their previous names (eg. temporary files
+	 * of editors), so modification of other files in the same directory or under
+	 * changed directory is checked too.
+	 *
+	 * @param paths Changed filenames or directories
+	 */
+	public invalidateFiles(paths: Array<string>){
+
+		let changed = paths.map((filename) => path.resolve(filename));
+
+		for(let i in this.cache){
+
+			let _class = this.cache[i];
+			if(!_class) continue;
+
+			let filename = path.resolve(_class.filename);
+
+			for(let j = 0; j < changed.length; j++){
+
+				if(filename === changed[j]){
+
+					this.invalidate(_class.id);
+					break;
+
+				}
+
+				let isAffected = (
+					path.dirname(filename) === path.dirname(changed[j])
+					|| filename.substr(0, changed[j].length + 1) === changed[j] + "/"
+				);
+
+				if(isAffected && this.isModified(_class)){
+
+					this.invalidate(_class.id);
+					break;
+
+				}
+
+			}
 
 		}
 
+		this.invalidateUnresolved();
+
+	}
+
+	/**
+	 * Returns IDs of classes and nodes read since last call
+	 *
+	 * Classes which failed to resolve are included as they are read again
+	 * every time.
+	 */
+	public flushResolved(){
+
+		let resolvedIds = this.resolvedIds;
+
+		this.resolvedIds = [];
+
+		return resolvedIds;
+
 	}
 
 	/**
@@ -686,6 +2123,41 @@ export class Resolver {
 
 	}
 
+	/**
+	 * Adds class resolved by other resolver instance to cache
+	 *
+	 * Cached classes it includes are linked as dependencies, missing optional
+	 * classes are added to dependency tree only.
+	 *
+	 * @param rClass Resolved class
+	 */
+	public addResolved(rClass: IResolvedClass){
+
+		this.cache[rClass.id] = rClass;
+
+		let classIds = rClass.classes.map((dep) => dep.id).concat(rClass.optionalClasses.map((name) => this.classesDir + "/" + name));
+
+		for(let i = 0; i < classIds.length; i++){
+
+			let _classId = classIds[i];
+
+			if(this.cache[_classId])
+				this.cache[_classId].dependents[rClass.id] = {
+					id: rClass.id,
+					type: rClass.type,
+					name: rClass.name
+				};
+
+			if(!this.dependencyTree[_classId])
+				this.dependencyTree[_classId] = [];
+
+			if(this.dependencyTree[_classId].indexOf(rClass.id) < 0)
+				this.dependencyTree[_classId].push(rClass.id);
+
+		}
+
+	}
+
 	/**
 	 * Returns cached class by ID
 	 *
@@ -697,4 +2169,30 @@ export class Resolver {
 
 	}
 
+	/**
+	 * Returns cached classes and dependency tree to be persisted
+	 */
+	public exportCache() : IResolverCache {
+
+		return {
+			cache: this.cache,
+			dependencyTree: this.dependencyTree
+		};
+
+	}
+
+	/**
+	 * Restores persisted cache
+	 *
+	 * Modified classes are invalidated by invalidateModified.
+	 *
+	 * @param data Persisted cache
+	 */
+	public importCache(data: IResolverCache){
+
+		this.cache = data.cache;
+		this.dependencyTree = data.dependencyTree;
+
+	}
+
 }
\ No newline at end of file
@@ -0,0 +1,72 @@
+/**
+ * Reclass doc generator
+ *
+ * @author Jiri Hybek <jiri@hybek.cz>
+ * @license Apache-2.0 (c) 2017 Jiri Hybek
+ */
+
+import {Resolver, IResolvedClass} from './Resolver';
+import {IClassMapping} from './Util';
+import {loadWorkerThreads} from './WorkerPool';
+
+let workerThreads = loadWorkerThreads();
+
+/**
+ * Resolver worker configuration interface
+ */
+export interface IResolverWorkerConfig {
+	reclassDir: string;
+	classesDir: string;
+	nodesDir: string;
+	ignoreClassNotFound: boolean;
+	ignoreClassNotFoundRegexp: Array<RegExp>;
+	classMappings: Array<IClassMapping>;
+}
+
+/**
+ * Resolver worker result interface
+ */
+export interface IResolverWorkerResult {
+	name: string;
+	class: IResolvedClass;
+	error: Error;
+}
+
+/*
+ * Worker thread entry - resolves nodes without interpolation, classes are cached
+ * by worker between jobs
+ */
+if(workerThreads && workerThreads.parentPort){
+
+	let config: IResolverWorkerConfig = workerThreads.workerData;
+	let resolver = new Resolver(config.reclassDir);
+
+	resolver.classesDir = config.classesDir;
+	resolver.nodesDir = config.nodesDir;
+	resolver.ignoreClassNotFound = config.ignoreClassNotFound;
+	resolver.ignoreClassNotFoundRegexp = config.ignoreClassNotFoundRegexp;
+	resolver.classMappings = config.classMappings;
+
+	workerThreads.parentPort.on("message", (name: string) => {
+
+		let result: IResolverWorkerResult = {
+			name: name,
+			class: null,
+			error: null
+		};
+
+		try {
+
+			result.class = resolver.resolveNode(name, false);
+
+		} catch(err) {
+
+			result.error = err;
+
+		}
+
+		workerThreads.parentPort.postMessage(result);
+
+	});
+
+}
\ No newline at end of file
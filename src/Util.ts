@@ -5,6 +5,8 @@
  * @license Apache-2.0 (c) 2017 Jiri Hybek
  */
 
+import fs = require('fs');
+import {load as loadYaml} from 'yaml-js';
 import {LOG_LEVEL} from 'meta2-logger';
 
 /**
@@ -189,6 +191,143 @@ export function parseClassName(type: CLASS_TYPE, path: string, delimiter: string
 
 }
 
+/**
+ * Class mapping interface
+ */
+export interface IClassMapping {
+    rule: string;
+    pattern: RegExp;
+    isRegExp: boolean;
+    classes: Array<string>;
+}
+
+/**
+ * Converts glob pattern to regular expression source
+ *
+ * Supports *, ?, [seq] and [!seq], characters escaped by backslash and
+ * unclosed brackets are matched literally.
+ *
+ * @param glob Glob pattern
+ */
+export function globToRegExp(glob: string) : string {
+
+    let escape = (str: string) => str.replace(/[.*+?^${}()|[\]\\\/]/g, "\\$&");
+    let expr = "";
+
+    for(let i = 0; i < glob.length; i++){
+
+        let c = glob.charAt(i);
+
+        if(c === "\\" && i + 1 < glob.length){
+
+            expr+= escape(glob.charAt(++i));
+
+        } else if(c === "*"){
+
+            expr+= ".*";
+
+        } else if(c === "?"){
+
+            expr+= ".";
+
+        } else if(c === "["){
+
+            //Closing bracket right after opening one is part of sequence
+            let start = i + 1;
+            let negate = ( glob.charAt(start) === "!" );
+            let end = ( negate ? start + 1 : start );
+
+            if(glob.charAt(end) === "]")
+                end++;
+
+            end = glob.indexOf("]", end);
+
+            if(end < 0){
+                expr+= escape(c);
+                continue;
+            }
+
+            let seq = glob.substring(negate ? start + 1 : start, end).replace(/[\\\]^]/g, "\\$&");
+
+            expr+= "[" + ( negate ? "^" : "" ) + seq + "]";
+            i = end;
+
+        } else {
+
+            expr+= escape(c);
+
+        }
+
+    }
+
+    return expr;
+
+}
+
+/**
+ * Parses class mapping rule from reclass config
+ *
+ * Rule is a glob pattern or /regexp/ followed by class names, regexp groups
+ * can be referenced in class names as \1, \2, ...
+ *
+ * @param rule Class mapping rule
+ */
+export function parseClassMapping(rule: string) : IClassMapping {
+
+    let parts = String(rule).trim().split(/\s+/);
+    let match = parts.shift();
+
+    if(!match || parts.length === 0)
+        throw new Error("Invalid class mapping '" + rule + "'.");
+
+    let mapping: IClassMapping = {
+        rule: String(rule).trim(),
+        pattern: null,
+        isRegExp: false,
+        classes: parts
+    };
+
+    //Regexp
+    if(match.length > 1 && match.substr(0, 1) === "/" && match.substr(-1) === "/"){
+
+        mapping.pattern = new RegExp(match.substr(1, match.length - 2));
+        mapping.isRegExp = true;
+
+    //Glob
+    } else {
+
+        mapping.pattern = new RegExp("^" + globToRegExp(match) + "$");
+
+    }
+
+    return mapping;
+
+}
+
+/**
+ * Loads reclass config file
+ *
+ * Returns null if file does not exist.
+ *
+ * @param filename Reclass config filename
+ */
+export function loadReclassConfig(filename: string) : { [K: string]: any } {
+
+    if(!fs.existsSync(filename))
+        return null;
+
+    let config = loadYaml(fs.readFileSync(filename, { encoding: 'utf-8' }));
+
+    if(config === null || config === undefined)
+        return {};
+
+    if(!(config instanceof Object) || config instanceof Array)
+        throw new Error("Invalid reclass config file structure.");
+
+    return config;
+
+}
+
 /**
  * Parses log level from string to logger level
  *
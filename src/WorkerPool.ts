@@ -0,0 +1,251 @@
+/**
+ * Reclass doc generator
+ *
+ * @author Jiri Hybek <jiri@hybek.cz>
+ * @license Apache-2.0 (c) 2017 Jiri Hybek
+ */
+
+/**
+ * Worker thread interface, only members used by pool
+ */
+export interface IWorker {
+	on(event: string, listener: (arg: any) => void): void;
+	postMessage(value: any): void;
+	terminate(): void;
+}
+
+/**
+ * Worker threads module interface, only members used by pool and workers
+ */
+export interface IWorkerThreads {
+	Worker: new (filename: string, options: { workerData: any }) => IWorker;
+	parentPort: {
+		on(event: string, listener: (value: any) => void): void;
+		postMessage(value: any): void;
+	};
+	workerData: any;
+}
+
+/**
+ * Returns worker threads module or null when it is not available in current Node.js version
+ */
+export function loadWorkerThreads() : IWorkerThreads {
+
+	try {
+
+		return require('worker_threads');
+
+	} catch(err) {
+
+		return null;
+
+	}
+
+}
+
+/**
+ * Worker job interface
+ */
+interface IWorkerJob {
+	data: any;
+	resolve: (result: any) => void;
+	reject: (err: Error) => void;
+}
+
+/**
+ * Worker thread pool class
+ *
+ * Runs jobs in fixed number of worker threads, each worker processes one job at a time
+ * and replies with single message.
+ */
+export class WorkerPool {
+
+	/** Worker script filename */
+	protected filename: string;
+
+	/** Data passed to each worker */
+	protected workerData: any;
+
+	/** Idle workers */
+	protected idle: Array<IWorker> = [];
+
+	/** Jobs being processed by workers */
+	protected running: Array<{ worker: IWorker, job: IWorkerJob }> = [];
+
+	/** Jobs waiting for worker */
+	protected queue: Array<IWorkerJob> = [];
+
+	/**
+	 * Pool constructor
+	 *
+	 * @param filename Worker script filename
+	 * @param size Number of workers
+	 * @param workerData Data passed to each worker
+	 */
+	public constructor(filename: string, size: number, workerData: any = null){
+
+		this.filename = filename;
+		this.workerData = workerData;
+
+		for(let i = 0; i < size; i++)
+			this.idle.push(this.createWorker());
+
+	}
+
+	/**
+	 * Returns if worker threads are supported
+	 */
+	public static isSupported(){
+
+		return loadWorkerThreads() !== null;
+
+	}
+
+	/**
+	 * Creates worker
+	 */
+	protected createWorker(){
+
+		let workerThreads = loadWorkerThreads();
+		let worker = new workerThreads.Worker(this.filename, { workerData: this.workerData });
+
+		worker.on("message", (result) => {
+
+			let job = this.release(worker);
+
+			if(job) job.resolve(result);
+
+		});
+
+		worker.on("error", (err) => this.fail(worker, err));
+
+		//Error event is followed by exit, failed worker is already replaced then
+		worker.on("exit", (code) => this.fail(worker, new Error("Worker exited with code " + code + ".")));
+
+		return worker;
+
+	}
+
+	/**
+	 * Removes job of worker and starts next one
+	 *
+	 * @param worker Worker
+	 */
+	protected release(worker: IWorker) : IWorkerJob {
+
+		let job: IWorkerJob = null;
+
+		for(let i = 0; i < this.running.length; i++)
+			if(this.running[i].worker === worker){
+				job = this.running[i].job;
+				this.running.splice(i, 1);
+				break;
+			}
+
+		this.idle.push(worker);
+		this.next();
+
+		return job;
+
+	}
+
+	/**
+	 * Replaces failed worker by new one and rejects its job
+	 *
+	 * Workers which are not part of pool anymore are ignored.
+	 *
+	 * @param worker Worker
+	 * @param err Error
+	 */
+	protected fail(worker: IWorker, err: Error){
+
+		let job: IWorkerJob = null;
+		let found = false;
+
+		for(let i = 0; i < this.running.length; i++)
+			if(this.running[i].worker === worker){
+				job = this.running[i].job;
+				found = true;
+				this.running.splice(i, 1);
+				break;
+			}
+
+		if(!found && this.idle.indexOf(worker) >= 0){
+			found = true;
+			this.idle.splice(this.idle.indexOf(worker), 1);
+		}
+
+		if(!found) return;
+
+		worker.terminate();
+
+		this.idle.push(this.createWorker());
+		this.next();
+
+		if(job) job.reject(err);
+
+	}
+
+	/**
+	 * Starts queued jobs on idle workers
+	 */
+	protected next(){
+
+		while(this.idle.length > 0 && this.queue.length > 0){
+
+			let worker = this.idle.shift();
+			let job = this.queue.shift();
+
+			this.running.push({ worker: worker, job: job });
+
+			worker.postMessage(job.data);
+
+		}
+
+	}
+
+	/**
+	 * Runs job and returns promise of its result
+	 *
+	 * @param data Job data
+	 */
+	public run(data: any) : Promise<any> {
+
+		return new Promise((resolve, reject) => {
+
+			this.queue.push({
+				data: data,
+				resolve: resolve,
+				reject: reject
+			});
+
+			this.next();
+
+		});
+
+	}
+
+	/**
+	 * Terminates all workers, queued jobs are rejected
+	 */
+	public terminate(){
+
+		let jobs = this.queue.concat(this.running.map((item) => item.job));
+
+		this.queue = [];
+
+		for(let i = 0; i < this.running.length; i++)
+			this.running[i].worker.terminate();
+
+		for(let i = 0; i < this.idle.length; i++)
+			this.idle[i].terminate();
+
+		this.running = [];
+		this.idle = [];
+
+		for(let i = 0; i < jobs.length; i++)
+			jobs[i].reject(new Error("Worker pool has been terminated."));
+
+	}
+
+}
\ No newline at end of file
@@ -5,7 +5,7 @@
  * @license Apache-2.0 (c) 2017 Jiri Hybek
  */
 
-import {compose} from 'yaml-js';
+import {compose, parse as parseEvents, events as yamlEvents} from 'yaml-js';
 
 export enum TOKEN_TYPE {
 	MAP,
@@ -25,6 +25,23 @@ export interface IToken {
 	line: number;
 	column: number;
 	pointer: number;
+	endLine: number;
+	endColumn: number;
+	endPointer: number;
+	anchor?: IAnchor;
+	inlineComment?: string;
+	keyPointer?: number;
+	keyEndPointer?: number;
+}
+
+/**
+ * Anchor reference interface
+ */
+export interface IAnchor {
+	name: string;
+	line: number;
+	column: number;
+	pointer: number;
 }
 
 /**
@@ -42,7 +59,57 @@ export class YamlTokenizer {
 		let ast = compose(src);
 		let lastPointer = 0;
 
-		let parseNode = (node, path: string = null, skipComments = false) : IToken => {
+		//Collect anchors and aliases - composed graph contains anchored nodes only
+		let anchors: { [K: number]: string } = {};
+		let aliases = [];
+		let visited = [];
+
+		if(src.indexOf("*") >= 0){
+
+			let _events = parseEvents(src);
+
+			for(let i = 0; i < _events.length; i++){
+
+				if(_events[i] instanceof yamlEvents.AliasEvent)
+					aliases.push(_events[i]);
+				else if(_events[i].anchor)
+					anchors[_events[i].start_mark.pointer] = _events[i].anchor;
+
+			}
+
+		}
+
+		//Returns trailing comment on the rest of line
+		let getInlineComment = (pointer: number, isKey: boolean) : string => {
+
+			let lineEnd = src.indexOf("\n", pointer);
+			let rest = src.substring(pointer, lineEnd >= 0 ? lineEnd : src.length);
+			let match = ( isKey ? /^\s*:\s+#(.*)$/ : /^\s+#(.*)$/ ).exec(rest);
+
+			return match ? match[1].trim() : null;
+
+		};
+
+		//Returns end of node without trailing whitespace and comment lines of collections
+		let getEndPointer = (start: number, end: number, isCollection: boolean) : number => {
+
+			while(true){
+
+				while(end > start && /\s/.test(src.charAt(end - 1)))
+					end--;
+
+				let lineStart = Math.max(src.lastIndexOf("\n", end - 1) + 1, start);
+
+				if(!isCollection || lineStart === start || src.substring(lineStart, end).trim().substr(0, 1) !== "#")
+					return end;
+
+				end = lineStart;
+
+			}
+
+		};
+
+		let parseNode = (node, path: string = null, skipComments = false, alias: IAnchor = null, isKey: boolean = false) : IToken => {
 
 			if(!node) return null;
 
@@ -54,13 +121,67 @@ export class YamlTokenizer {
 				value: null,
 				line: node.start_mark.line,
 				column: node.start_mark.column,
-				pointer: node.start_mark.pointer
+				pointer: node.start_mark.pointer,
+				endLine: null,
+				endColumn: null,
+				endPointer: null
+			}
+
+			//Identify alias - every next occurence of anchored node in document order
+			let mark = node.start_mark;
+			let endMark = node.end_mark;
+			let isAlias = false;
+
+			if(!alias && anchors[node.start_mark.pointer] !== undefined){
+
+				if(visited.indexOf(node) >= 0 && aliases.length > 0){
+
+					let aliasEvent = aliases.shift();
+
+					mark = aliasEvent.start_mark;
+					endMark = aliasEvent.end_mark;
+					isAlias = true;
+
+					alias = {
+						name: anchors[node.start_mark.pointer],
+						line: node.start_mark.line,
+						column: node.start_mark.column,
+						pointer: node.start_mark.pointer
+					};
+
+				} else {
+
+					visited.push(node);
+
+				}
+
+			}
+
+			//Tokens produced through alias points to anchor
+			if(alias)
+				token.anchor = alias;
+
+			//Set end position
+			let endPointer = getEndPointer(mark.pointer, endMark.pointer, typeof node.value !== 'string' && !isAlias);
+
+			token.endPointer = endPointer;
+			token.endLine = mark.line + src.substring(mark.pointer, endPointer).split("\n").length - 1;
+			token.endColumn = endPointer - (src.lastIndexOf("\n", endPointer - 1) + 1);
+
+			//Parse trailing comment of keys, scalars and flow collections
+			if(isAlias || isKey || ( typeof node.value === 'string' && node.style !== '|' && node.style !== '>' ) || node.flow_style){
+
+				let inlineComment = getInlineComment(endMark.pointer, isKey);
+
+				if(inlineComment !== null)
+					token.inlineComment = inlineComment;
+
 			}
 
 			//Parse comments
-			if(!skipComments){
+			if(!skipComments && mark.pointer >= lastPointer){
 			
-				let haystack = src.substr(lastPointer, node.start_mark.pointer - lastPointer);
+				let haystack = src.substr(lastPointer, mark.pointer - lastPointer);
 				let _lines = haystack.split("\n");
 
 				for(let i = 0; i < _lines.length; i++){
@@ -72,7 +193,7 @@ export class YamlTokenizer {
 
 				}
 
-				lastPointer = node.start_mark.pointer;
+				lastPointer = mark.pointer;
 
 			}
 
@@ -82,17 +203,53 @@ export class YamlTokenizer {
 				token.type = TOKEN_TYPE.MAP;
 				token.value = {};
 
+				let merged = {};
+
 				for(let i = 0; i < node.value.length; i++){
 
-					let key = parseNode(node.value[i][0], path + "." + i + "$");
-					let value =  parseNode(node.value[i][1], path + '.' + key.value, true);
+					//Merge key - explicit keys and earlier merged maps takes precedence
+					if(node.value[i][0].tag == 'tag:yaml.org,2002:merge'){
+
+						let mergeToken = parseNode(node.value[i][1], path + '.' + i + "<<", true, alias);
+						let mergeMaps = ( mergeToken.type === TOKEN_TYPE.SEQUENCE ? mergeToken.value : [ mergeToken ] );
+
+						for(let j = 0; j < mergeMaps.length; j++){
+
+							if(mergeMaps[j].type !== TOKEN_TYPE.MAP)
+								throw new Error("Merge key at line " + (mergeToken.line + 1) + " expects map or sequence of maps.");
+
+							for(let k in mergeMaps[j].value)
+								if(merged[k] === undefined)
+									merged[k] = mergeMaps[j].value[k];
+
+						}
+
+						continue;
+
+					}
+
+					let key = parseNode(node.value[i][0], path + "." + i + "$", false, alias, true);
+					let value =  parseNode(node.value[i][1], path + '.' + key.value, true, alias);
 
 					value.comment = key.comment.concat(value.comment);
 
+					if(key.inlineComment)
+						value.inlineComment = ( value.inlineComment ? key.inlineComment + "\n" + value.inlineComment : key.inlineComment );
+
+					//Key position - keys of aliased maps are located at anchor
+					if(!alias){
+						value.keyPointer = key.pointer;
+						value.keyEndPointer = key.endPointer;
+					}
+
 					token.value[key.value] = value;
 
 				}
 
+				for(let k in merged)
+					if(token.value[k] === undefined)
+						token.value[k] = merged[k];
+
 			} else if(node.tag == 'tag:yaml.org,2002:seq'){
 
 				token.type = TOKEN_TYPE.SEQUENCE;
@@ -100,7 +257,7 @@ export class YamlTokenizer {
 
 				for(let i = 0; i < node.value.length; i++){
 					
-					let value = parseNode(node.value[i], path + "." + i);
+					let value = parseNode(node.value[i], path + "." + i, false, alias);
 
 					token.value.push( value );
 
@@ -9,11 +9,28 @@ import {Logger, LOG_LEVEL} from 'meta2-logger';
 import pug = require('pug');
 import fs = require('fs');
 import path = require('path');
+import crypto = require('crypto');
 import {EventEmitter} from 'events';
 
-import {Inventory, IInventoryConfig} from './Inventory';
+import {Inventory, IInventoryConfig, IInventoryCache} from './Inventory';
 import {Renderer, IRendererConfig} from './Renderer';
 import {Server, IServerConfig} from './Server';
+import {loadReclassConfig} from './Util';
+
+let v8 = require('v8');
+
+/** Build cache format version, increment when cached structures change */
+const CACHE_VERSION = 3;
+
+/**
+ * Persisted build cache interface
+ */
+interface IBuildCache {
+	version: number;
+	configFingerprint: string;
+	inventory: IInventoryCache;
+	renderer: { [K: string]: string };
+}
 
 /**
  * Application configuration
@@ -32,6 +49,18 @@ export interface IConfig {
 	/** Classes directory in reclass root dir */
 	classDir?: string;
 
+	/** Reclass config file, defaults to reclass-config.yml in reclass root dir */
+	reclassConfigFile?: string;
+
+	/** If to ignore not found classes */
+	ignoreClassNotFound?: boolean;
+
+	/** Regular expressions of not found classes to ignore */
+	ignoreClassNotFoundRegexp?: Array<string>;
+
+	/** Number of worker threads resolving nodes (not interpolating them), defaults to one (main thread only) */
+	concurrency?: number;
+
 	/** Template directory */
 	templateDir?: string;
 
@@ -80,6 +109,9 @@ export interface IConfig {
 	/** Logger log level */
 	logLevel?: LOG_LEVEL;
 
+	/** If to persist build cache in output directory between runs */
+	cache?: boolean;
+
 }
 
 /**
@@ -101,6 +133,15 @@ export class ReclassDoc extends EventEmitter {
 
 	protected watchLock: boolean = false;
 
+	/** Files changed since last rebuild */
+	protected changedFiles: Array<string> = [];
+
+	/** Build cache filename, null when cache is disabled */
+	protected cacheFilename: string = null;
+
+	/** Fingerprint of configuration the build cache is valid for */
+	protected configFingerprint: string = null;
+
 	/**
 	 * Constructor
 	 *
@@ -111,6 +152,27 @@ export class ReclassDoc extends EventEmitter {
 
 		super();
 
+		//Init logger
+		this.logger = logger;
+
+		//Read reclass config
+		config.reclassConfigFile = config.reclassConfigFile || (config.reclassDir + "/reclass-config.yml");
+
+		try {
+
+			let reclassConfig = loadReclassConfig(config.reclassConfigFile);
+
+			if(reclassConfig){
+				this.logger.info("Reading reclass configuration from '" + config.reclassConfigFile + "'...");
+				this.applyReclassConfig(config, reclassConfig);
+			}
+
+		} catch(err) {
+
+			this.logger.warn("Failed to read reclass configuration '" + config.reclassConfigFile + "':", String(err));
+
+		}
+
 		//Set default configuration
 		config.outputDir = config.outputDir || (config.reclassDir + "/doc");
 		config.classDir = config.classDir || '/classes';
@@ -125,24 +187,27 @@ export class ReclassDoc extends EventEmitter {
 		config.pugOptions = config.pugOptions || { pretty: true };
 		config.globals = config.globals || {};
 		config.logoUrl = config.logoUrl || null;
+		config.concurrency = config.concurrency || 1;
 
 		if(config.watchReclass === undefined) config.watchReclass = true;
 		if(config.watchMedia === undefined) config.watchMedia = true;
 		if(config.watchTemplate === undefined) config.watchTemplate = true;
+		if(config.cache === undefined) config.cache = true;
 
 		if(config.startServer)
 			config.globals['_watchChanges'] = true;
 
-		//Init logger
-		this.logger = logger;
-
 		this.logger.debug("Using configuration:", config);
 
 		//Init inventory
 		this.inventory = new Inventory({
 			reclassDir: config.reclassDir,
 			classesDir: config.classDir,
-			nodesDir: config.nodeDir
+			nodesDir: config.nodeDir,
+			reclassConfigFile: config.reclassConfigFile,
+			ignoreClassNotFound: config.ignoreClassNotFound,
+			ignoreClassNotFoundRegexp: config.ignoreClassNotFoundRegexp,
+			concurrency: config.concurrency
 		}, this.logger.facility("Inventory"));
 
 		//Init renderer
@@ -161,6 +226,33 @@ export class ReclassDoc extends EventEmitter {
 			logoUrl: config.logoUrl
 		}, this.inventory, this.logger.facility("Renderer"));
 
+		//Setup build cache
+		if(config.cache){
+
+			this.cacheFilename = config.outputDir + "/.reclass-doc-cache";
+
+			this.configFingerprint = crypto.createHash('md5').update(JSON.stringify([
+				require("../package.json").version,
+				config.reclassDir,
+				config.outputDir,
+				config.nodeDir,
+				config.classDir,
+				config.reclassConfigFile,
+				config.ignoreClassNotFound,
+				config.ignoreClassNotFoundRegexp,
+				config.templateDir,
+				config.mediaSrcDir,
+				config.mediaOutDir,
+				config.assetsSrcDir,
+				config.assetsOutDir,
+				config.globals,
+				config.pugOptions,
+				config.title,
+				config.logoUrl
+			])).digest('hex');
+
+		}
+
 		//Setup server?
 		if(config.startServer){
 
@@ -197,10 +289,43 @@ export class ReclassDoc extends EventEmitter {
 
 	}
 
+	/**
+	 * Maps reclass config options to configuration
+	 *
+	 * Options already set in configuration (or by CLI flags) are kept.
+	 *
+	 * @param config ReclassDoc configuration
+	 * @param reclassConfig Parsed reclass config
+	 */
+	protected applyReclassConfig(config: IConfig, reclassConfig: { [K: string]: any }){
+
+		let configDir = path.dirname(path.resolve(config.reclassConfigFile));
+		let baseUri = ( reclassConfig['inventory_base_uri'] ? path.resolve(configDir, String(reclassConfig['inventory_base_uri'])) : configDir );
+
+		let toSubDir = (uri: string) => {
+
+			return "/" + path.relative(path.resolve(config.reclassDir), path.resolve(baseUri, uri)).replace(/\\/g, "/");
+
+		};
+
+		if(!config.nodeDir && ( reclassConfig['nodes_uri'] || reclassConfig['inventory_base_uri'] ))
+			config.nodeDir = toSubDir( String(reclassConfig['nodes_uri'] || "nodes") );
+
+		if(!config.classDir && ( reclassConfig['classes_uri'] || reclassConfig['inventory_base_uri'] ))
+			config.classDir = toSubDir( String(reclassConfig['classes_uri'] || "classes") );
+
+		if(config.ignoreClassNotFound === undefined && reclassConfig['ignore_class_notfound'] !== undefined)
+			config.ignoreClassNotFound = ( reclassConfig['ignore_class_notfound'] === true || String(reclassConfig['ignore_class_notfound']).toLowerCase() === "true" );
+
+		if(!config.ignoreClassNotFoundRegexp && reclassConfig['ignore_class_notfound_regexp'])
+			config.ignoreClassNotFoundRegexp = [].concat(reclassConfig['ignore_class_notfound_regexp']).map((expr) => String(expr));
+
+	}
+
 	/**
 	 * Starts application
 	 */
-	public start(){
+	public start() : Promise<void> {
 
 		this.emit("start");
 
@@ -208,15 +333,23 @@ export class ReclassDoc extends EventEmitter {
 		if(this.server)
 			this.server.start();
 
+		//Restore build cache
+		if(this.cacheFilename)
+			this.loadCache();
+
 		//Build documentation
-		this.build();
+		return this.build();
 
 	}
 
 	/**
 	 * Builds documentation
+	 *
+	 * @param changedFiles Changed filenames or directories, all files are checked when not set
 	 */
-	public build(){
+	public build(changedFiles: Array<string> = null) : Promise<void> {
+
+		let startTime = Date.now();
 
 		this.logger.info("Building documentation...");
 
@@ -224,20 +357,94 @@ export class ReclassDoc extends EventEmitter {
 
 		this.logger.debug("Loading inventory...");
 
-		this.inventory.load();
+		return this.inventory.load(changedFiles).then(() => {
 
-		let index = this.inventory.getIndex();
-		let treeFinger = this.inventory.getTreeIndex();
+			let index = this.inventory.getIndex();
+			let treeFinger = this.inventory.getTreeIndex();
 
-		//Render documentation
-		this.logger.debug("Rendering...");
-		this.renderer.render(index, treeFinger);
+			//Render documentation
+			this.logger.debug("Rendering...");
+			this.renderer.render(index, treeFinger);
 
-		//Update server modification time
-		if(this.server)
-			this.server.setModified();
+			let changes = this.inventory.getChanges();
+			let pages = this.renderer.getRenderedPages();
+
+			this.logger.debug("Rebuilt classes:", changes.classes);
+			this.logger.debug("Rebuilt nodes:", changes.nodes);
+
+			this.logger.info("Rebuilt " + changes.classes.length + " classes, " + changes.nodes.length + " nodes and " + pages.length + " pages in " + (Date.now() - startTime) + "ms.");
+
+			//Update server modification time
+			if(this.server)
+				this.server.setModified();
+
+			//Persist build cache
+			if(this.cacheFilename)
+				this.saveCache();
+
+			this.emit("build");
+
+		});
+
+	}
+
+	/**
+	 * Loads persisted build cache
+	 *
+	 * Cache is ignored when it was created by other version or configuration.
+	 */
+	protected loadCache(){
+
+		if(!fs.existsSync(this.cacheFilename))
+			return;
+
+		this.logger.info("Reading build cache from '" + this.cacheFilename + "'...");
+
+		try {
+
+			let data: IBuildCache = v8.deserialize(fs.readFileSync(this.cacheFilename));
+
+			if(data.version !== CACHE_VERSION || data.configFingerprint !== this.configFingerprint){
+
+				this.logger.info("Build cache is outdated, rebuilding all...");
+				return;
+
+			}
+
+			this.inventory.importCache(data.inventory);
+			this.renderer.importCache(data.renderer);
+
+		} catch(err) {
+
+			this.logger.warn("Failed to read build cache '" + this.cacheFilename + "':", String(err));
+
+		}
 
-		this.emit("build");
+	}
+
+	/**
+	 * Writes build cache to output directory
+	 */
+	protected saveCache(){
+
+		let data: IBuildCache = {
+			version: CACHE_VERSION,
+			configFingerprint: this.configFingerprint,
+			inventory: this.inventory.exportCache(),
+			renderer: this.renderer.exportCache()
+		};
+
+		this.logger.debug("Writing build cache to '" + this.cacheFilename + "'...");
+
+		try {
+
+			fs.writeFileSync(this.cacheFilename, v8.serialize(data));
+
+		} catch(err) {
+
+			this.logger.warn("Failed to write build cache '" + this.cacheFilename + "':", String(err));
+
+		}
 
 	}
 
@@ -254,14 +461,14 @@ export class ReclassDoc extends EventEmitter {
 
 		if(stat && stat.isDirectory()){
 
-			fs.watch(path, { recursive: true }, () => {
-				this.watchTrigger();
+			fs.watch(path, { recursive: true }, (event, filename) => {
+				this.watchTrigger(filename ? path + "/" + filename : path);
 			});
 
 		} else {
 
 			fs.watch(path, () => {
-				this.watchTrigger();
+				this.watchTrigger(path);
 			});
 
 		}
@@ -270,26 +477,48 @@ export class ReclassDoc extends EventEmitter {
 
 	/**
 	 * Called when watches items has changed
+	 *
+	 * Changes are collected until running rebuild finishes.
+	 *
+	 * @param filename Changed filename or directory
 	 */
-	protected watchTrigger(){
+	protected watchTrigger(filename: string){
+
+		this.logger.debug("Watch triggered by '" + filename + "'.");
 
-		this.logger.debug("Watch triggered.");
+		if(this.changedFiles.indexOf(filename) < 0)
+			this.changedFiles.push(filename);
 
 		if(this.watchLock) return;
 		this.watchLock = true;
 
-		this.logger.info("Some files changed, rebuilding...");
-
 		setTimeout(() => {
 
-			this.watchLock = false;
-			this.logger.debug("Watch lock released.");
+			let changedFiles = this.changedFiles;
+			this.changedFiles = [];
 
-		}, 1);
+			this.logger.info("Some files changed, rebuilding...");
+
+			this.build(changedFiles).then(() => {
+
+				this.emit("watchChange");
+
+			}, (err) => {
 
-		this.build();
+				this.logger.error("Failed to rebuild documentation:", String(err));
 
-		this.emit("watchChange");
+			}).then(() => {
+
+				this.watchLock = false;
+				this.logger.debug("Watch lock released.");
+
+				//Rebuild files changed during build
+				if(this.changedFiles.length > 0)
+					this.watchTrigger(this.changedFiles.pop());
+
+			});
+
+		}, 1);
 
 	}
 
@@ -71,6 +71,17 @@ parser.addArgument( [ '--port' ], {
 	defaultValue: 8080
 });
 
+parser.addArgument( [ '--concurrency' ], {
+	help: 'Number of worker threads resolving nodes, requires worker_threads support',
+	dest: 'concurrency'
+});
+
+parser.addArgument( [ '--no-cache' ], {
+	help: 'Do not use build cache stored in output directory',
+	dest: 'no_cache',
+	action: 'storeTrue'
+});
+
 parser.addArgument( [ '--verbose' ], {
 	help: 'Logging verbose level',
 	dest: 'log_level',
@@ -133,6 +144,8 @@ try {
 		if(args.watch) config.watch = true;
 		if(args.server) config.startServer = true;
 		if(args.port) config.serverPort = parseInt(args.port);
+		if(args.concurrency) config.concurrency = parseInt(args.concurrency);
+		if(args.no_cache) config.cache = false;
 		if(args.reclass_dir) config.reclassDir = reclassDir;
 
 		//Init application
@@ -142,7 +155,16 @@ try {
 
 		logger.info("Starting ReclassDoc...");
 
-		app.start();
+		app.start().catch((err) => {
+
+			if(logLevel === LOG_LEVEL.BREAK || logLevel === LOG_LEVEL.DEBUG)
+				logger.error(err, err.stack);
+			else
+				logger.error(err);
+
+			process.exitCode = 1;
+
+		});
 
 	} catch(err){
 
@@ -151,10 +173,13 @@ try {
 		else
 			logger.error(err);
 
+		process.exitCode = 1;
+
 	}
 
 } catch(err) {
 
 	console.error(err);
+	process.exitCode = 1;
 
 }
\ No newline at end of file
@@ -150,6 +150,31 @@ let bindSearch = (parent: HTMLElement = document.body) => {
 
 };
 
+let highlightLines = () => {
+
+	let items = document.querySelectorAll(".code-line.highlight");
+
+	for(let i = 0; i < items.length; i++)
+		items.item(i).classList.remove('highlight');
+
+	let match = /^#lines:(\d+)-(\d+)$/.exec(location.hash);
+
+	if(!match) return;
+
+	for(let i = parseInt(match[1]); i <= parseInt(match[2]); i++){
+
+		let el = document.getElementById("line:" + i);
+
+		if(el) el.classList.add('highlight');
+
+	}
+
+	let first = document.getElementById("line:" + match[1]);
+
+	if(first) first.scrollIntoView();
+
+};
+
 let watchChanges = () => {
 
 	let lastMod = null;
@@ -202,6 +227,7 @@ window.addEventListener("load", () => {
 	bindCollapseButtons();
 	bindToggleInheritedProps();
 	bindSearch();
+	highlightLines();
 
 	setTimeout(() => {
 		localStorage['reclass-doc-loc'] = location.href;
@@ -209,6 +235,8 @@ window.addEventListener("load", () => {
 
 });
 
+window.addEventListener("hashchange", highlightLines);
+
 let w: any = window;
 
 //Export to window